@@ -0,0 +1,668 @@
+import { createSign, randomUUID } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+
+type SyncState = 'INITIALIZING' | 'ACTIVE' | 'IDLE' | 'DISABLED' | 'ERRORED';
+
+interface MockSync {
+  syncId: string;
+  userId: string;
+  workspaceId: string;
+  integrationId: string;
+  folderId: string;
+  totalRecords: number;
+  createdAt: number;
+  // When the current sync run started; reset by resume and resync
+  startedAt: number;
+  disabled: boolean;
+}
+
+interface MockArtifact {
+  artifactId: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  processingStatus: string;
+  createdAt: string;
+  metadata: Record<string, unknown>;
+  tags: string[];
+}
+
+interface MockUpload {
+  uploadId: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  chunkSize: number;
+  request: Record<string, unknown>;
+  parts: Map<number, Buffer>;
+}
+
+// A Drive resumable upload session, answered the way Drive answers chunks
+interface MockDriveUpload {
+  uploadId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  parentId: string;
+  chunks: Buffer[];
+  received: number;
+}
+
+export interface MockBackendOptions {
+  // How long a new sync stays INITIALIZING, in milliseconds
+  initializingMs?: number;
+  // How long a sync stays ACTIVE before it becomes IDLE, in milliseconds
+  activeMs?: number;
+  // Lifetime of minted user tokens, in seconds
+  tokenTtlSeconds?: number;
+  // Part size handed out for chunked ingest uploads, in bytes
+  chunkSize?: number;
+  // How long an ingested artifact stays PENDING and then PROCESSING, in milliseconds
+  artifactPendingMs?: number;
+  artifactProcessingMs?: number;
+  // Paragon signing key (PEM). Without it tokens are unsigned and only the
+  // mock endpoints accept them.
+  signingKey?: string;
+  // Injectable clock so tests can step through sync states deterministically
+  now?: () => number;
+}
+
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function base64url(value: string | Buffer) {
+  return Buffer.from(value).toString('base64url');
+}
+
+// Stable record count per folder so repeated runs show the same numbers
+function recordCountFor(folderId: string) {
+  let hash = 0;
+  for (const char of folderId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return 20 + (hash % 180);
+}
+
+export class MockBackendState {
+  readonly syncs = new Map<string, MockSync>();
+  readonly artifacts = new Map<string, MockArtifact>();
+  readonly uploads = new Map<string, MockUpload>();
+  readonly driveUploads = new Map<string, MockDriveUpload>();
+  private readonly options: Required<Omit<MockBackendOptions, 'signingKey'>> &
+    Pick<MockBackendOptions, 'signingKey'>;
+
+  constructor(options: MockBackendOptions = {}) {
+    this.options = {
+      initializingMs: 3_000,
+      activeMs: 15_000,
+      tokenTtlSeconds: 60 * 60,
+      chunkSize: 5 * 1024 * 1024,
+      artifactPendingMs: 2_000,
+      artifactProcessingMs: 6_000,
+      now: Date.now,
+      ...options,
+    };
+  }
+
+  mintToken(userId: string) {
+    const iat = Math.floor(this.options.now() / 1000);
+    const payload = base64url(
+      JSON.stringify({ sub: userId, iat, exp: iat + this.options.tokenTtlSeconds }),
+    );
+
+    if (!this.options.signingKey) {
+      const header = base64url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+      return `${header}.${payload}.`;
+    }
+
+    const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const signature = createSign('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .sign(this.options.signingKey.replace(/\\n/g, '\n'));
+    return `${header}.${payload}.${base64url(signature)}`;
+  }
+
+  configureSync(body: Record<string, unknown>) {
+    for (const field of ['workspaceId', 'userId', 'integrationId', 'folderId', 'userToken']) {
+      if (typeof body[field] !== 'string' || !body[field]) {
+        throw new MockHttpError(400, `Missing required field: ${field}`);
+      }
+    }
+
+    const sync: MockSync = {
+      syncId: randomUUID(),
+      userId: body.userId as string,
+      workspaceId: body.workspaceId as string,
+      integrationId: body.integrationId as string,
+      folderId: body.folderId as string,
+      totalRecords: recordCountFor(body.folderId as string),
+      createdAt: this.options.now(),
+      startedAt: this.options.now(),
+      disabled: false,
+    };
+    this.syncs.set(sync.syncId, sync);
+
+    return {
+      syncId: sync.syncId,
+      status: 'INITIALIZING',
+      message: `Sync created for folder ${sync.folderId}`,
+    };
+  }
+
+  listSyncs(userId: string | null) {
+    return [...this.syncs.values()]
+      .filter((sync) => !userId || sync.userId === userId)
+      .map((sync) => {
+        const { status, summary } = this.getSyncStatus(sync.syncId);
+        return {
+          id: sync.syncId,
+          integration: sync.integrationId,
+          status,
+          configuration: { folderId: sync.folderId },
+          summary,
+        };
+      });
+  }
+
+  pauseSync(syncId: string) {
+    const sync = this.findSync(syncId);
+    sync.disabled = true;
+    return { syncId, status: 'DISABLED' };
+  }
+
+  resumeSync(syncId: string) {
+    const sync = this.findSync(syncId);
+    if (sync.disabled) {
+      sync.disabled = false;
+      sync.startedAt = this.options.now();
+    }
+    return { syncId, status: this.getSyncStatus(syncId).status };
+  }
+
+  resync(syncId: string) {
+    const sync = this.findSync(syncId);
+    if (sync.disabled) {
+      throw new MockHttpError(409, `Sync ${syncId} is disabled, resume it first`);
+    }
+    sync.startedAt = this.options.now();
+    return { syncId, status: this.getSyncStatus(syncId).status };
+  }
+
+  deleteSync(syncId: string) {
+    this.findSync(syncId);
+    this.syncs.delete(syncId);
+  }
+
+  getSyncStatus(syncId: string) {
+    const sync = this.findSync(syncId);
+
+    const { initializingMs, activeMs } = this.options;
+    const elapsed = this.options.now() - sync.startedAt;
+    let status: SyncState;
+    let syncedRecordsCount: number;
+    let lastSyncedAt = '';
+
+    if (sync.disabled) {
+      status = 'DISABLED';
+      syncedRecordsCount = 0;
+    } else if (elapsed < initializingMs) {
+      status = 'INITIALIZING';
+      syncedRecordsCount = 0;
+    } else if (elapsed < initializingMs + activeMs) {
+      status = 'ACTIVE';
+      const progress = (elapsed - initializingMs) / activeMs;
+      syncedRecordsCount = Math.floor(sync.totalRecords * progress);
+      lastSyncedAt = new Date(this.options.now()).toISOString();
+    } else {
+      status = 'IDLE';
+      syncedRecordsCount = sync.totalRecords;
+      lastSyncedAt = new Date(sync.startedAt + initializingMs + activeMs).toISOString();
+    }
+
+    return {
+      status,
+      summary: {
+        totalRecords: sync.totalRecords,
+        syncedRecordsCount,
+        lastSyncedAt,
+        latestCursor: syncedRecordsCount > 0 ? base64url(`${syncId}:${syncedRecordsCount}`) : '',
+      },
+    };
+  }
+
+  private findSync(syncId: string) {
+    const sync = this.syncs.get(syncId);
+    if (!sync) {
+      throw new MockHttpError(404, `Sync ${syncId} not found`);
+    }
+    return sync;
+  }
+
+  startUpload(body: Record<string, unknown>) {
+    if (typeof body.filename !== 'string' || typeof body.fileSize !== 'number') {
+      throw new MockHttpError(400, 'filename and fileSize are required');
+    }
+
+    const upload: MockUpload = {
+      uploadId: randomUUID(),
+      filename: body.filename,
+      mimeType: typeof body.mimeType === 'string' ? body.mimeType : '',
+      fileSize: body.fileSize,
+      chunkSize: this.options.chunkSize,
+      request: (body.request as Record<string, unknown>) ?? {},
+      parts: new Map(),
+    };
+    this.uploads.set(upload.uploadId, upload);
+    return this.getUpload(upload.uploadId);
+  }
+
+  getUpload(uploadId: string) {
+    const upload = this.findUpload(uploadId);
+    return {
+      uploadId,
+      chunkSize: upload.chunkSize,
+      uploadedParts: [...upload.parts.keys()].sort((a, b) => a - b),
+    };
+  }
+
+  uploadPart(uploadId: string, partNumber: number, chunk: Buffer) {
+    const upload = this.findUpload(uploadId);
+    const totalParts = Math.ceil(upload.fileSize / upload.chunkSize);
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > totalParts) {
+      throw new MockHttpError(400, `Part ${partNumber} is out of range 1-${totalParts}`);
+    }
+    upload.parts.set(partNumber, chunk);
+    return { partNumber, size: chunk.length };
+  }
+
+  completeUpload(uploadId: string) {
+    const upload = this.findUpload(uploadId);
+    const totalParts = Math.ceil(upload.fileSize / upload.chunkSize);
+    const parts: Buffer[] = [];
+    for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+      const part = upload.parts.get(partNumber);
+      if (!part) {
+        throw new MockHttpError(409, `Part ${partNumber} has not been uploaded`);
+      }
+      parts.push(part);
+    }
+
+    const file = new File(parts, upload.filename, { type: upload.mimeType });
+    if (file.size !== upload.fileSize) {
+      throw new MockHttpError(409, `Expected ${upload.fileSize} bytes, received ${file.size}`);
+    }
+    this.uploads.delete(uploadId);
+    return this.ingestFile(file, upload.request);
+  }
+
+  startDriveUpload(body: Record<string, unknown>) {
+    if (typeof body.name !== 'string' || typeof body.size !== 'number') {
+      throw new MockHttpError(400, 'name and size are required');
+    }
+    if (typeof body.origin !== 'string' || !body.origin) {
+      throw new MockHttpError(400, 'Missing required field: origin');
+    }
+
+    const upload: MockDriveUpload = {
+      uploadId: randomUUID(),
+      name: body.name,
+      mimeType: typeof body.mimeType === 'string' ? body.mimeType : 'application/octet-stream',
+      size: body.size,
+      parentId: typeof body.parentId === 'string' ? body.parentId : 'root',
+      chunks: [],
+      received: 0,
+    };
+    this.driveUploads.set(upload.uploadId, upload);
+    return { uploadUrl: `${body.origin}/mock/drive/uploads/${upload.uploadId}` };
+  }
+
+  // Stores a chunk sent with `Content-Range: bytes start-end/size`, or just
+  // reports progress for `bytes */size`. Chunks that don't continue from the
+  // stored bytes are ignored, as Drive does.
+  uploadDriveChunk(uploadId: string, contentRange: string, chunk: Buffer) {
+    const upload = this.driveUploads.get(uploadId);
+    if (!upload) {
+      throw new MockHttpError(404, `Upload ${uploadId} not found`);
+    }
+
+    const range = contentRange.match(/^bytes (?:(\d+)-(\d+)|\*)\/(\d+)$/);
+    if (!range || Number(range[3]) !== upload.size) {
+      throw new MockHttpError(400, `Invalid Content-Range: ${contentRange}`);
+    }
+    if (range[1] !== undefined && Number(range[1]) === upload.received) {
+      upload.chunks.push(chunk);
+      upload.received += chunk.length;
+    }
+
+    if (upload.received < upload.size) {
+      return { received: upload.received };
+    }
+    this.driveUploads.delete(uploadId);
+    const now = new Date(this.options.now()).toISOString();
+    return {
+      received: upload.received,
+      file: {
+        id: `mock-${upload.uploadId}`,
+        name: upload.name,
+        mimeType: upload.mimeType,
+        size: String(upload.size),
+        parents: [upload.parentId],
+        createdTime: now,
+        modifiedTime: now,
+      },
+    };
+  }
+
+  getArtifact(artifactId: string) {
+    const artifact = this.artifacts.get(artifactId);
+    if (!artifact) {
+      throw new MockHttpError(404, `Artifact ${artifactId} not found`);
+    }
+
+    const { artifactPendingMs, artifactProcessingMs } = this.options;
+    const elapsed = this.options.now() - Date.parse(artifact.createdAt);
+    const processingStatus =
+      elapsed < artifactPendingMs
+        ? 'PENDING'
+        : elapsed < artifactPendingMs + artifactProcessingMs
+          ? 'PROCESSING'
+          : 'COMPLETED';
+
+    return { ...artifact, processingStatus };
+  }
+
+  private findUpload(uploadId: string) {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) {
+      throw new MockHttpError(404, `Upload ${uploadId} not found`);
+    }
+    return upload;
+  }
+
+  ingestFile(file: File, request: Record<string, unknown>) {
+    const artifact: MockArtifact = {
+      artifactId: randomUUID(),
+      filename: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      fileSize: file.size,
+      processingStatus: 'PENDING',
+      createdAt: new Date(this.options.now()).toISOString(),
+      metadata: (request.metadata as Record<string, unknown>) ?? {},
+      tags: (request.tags as string[]) ?? [],
+    };
+    this.artifacts.set(artifact.artifactId, artifact);
+
+    return {
+      artifactId: artifact.artifactId,
+      filename: artifact.filename,
+      mimeType: artifact.mimeType,
+      fileSize: artifact.fileSize,
+      processingStatus: artifact.processingStatus,
+      createdAt: artifact.createdAt,
+    };
+  }
+}
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const body = await readBody(req);
+  try {
+    return JSON.parse(body.toString('utf8') || '{}');
+  } catch {
+    throw new MockHttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+async function readFormData(req: IncomingMessage) {
+  const body = await readBody(req);
+  const request = new Request('http://mock.local', {
+    method: 'POST',
+    headers: { 'content-type': req.headers['content-type'] ?? '' },
+    body,
+  });
+  try {
+    return await request.formData();
+  } catch {
+    throw new MockHttpError(400, 'Request body is not valid multipart form data');
+  }
+}
+
+// Returns the `sub` claim of the bearer token, or null when it is opaque
+function requireBearer(req: IncomingMessage): string | null {
+  const authorization = req.headers.authorization;
+  if (!authorization?.startsWith('Bearer ')) {
+    throw new MockHttpError(401, 'Missing bearer token');
+  }
+  return userIdFromToken(authorization.slice('Bearer '.length));
+}
+
+function userIdFromToken(token: string): string | null {
+  const [, payload] = token.split('.');
+  try {
+    const claims = JSON.parse(Buffer.from(payload ?? '', 'base64url').toString('utf8'));
+    return typeof claims.sub === 'string' ? claims.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+// Pushes a `sync-status` event whenever a sync's status or progress changes.
+// Statuses are derived from the clock, so the stream samples them every second.
+function streamSyncEvents(
+  state: MockBackendState,
+  userId: string | null,
+  req: IncomingMessage,
+  res: ServerResponse,
+) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const lastSent = new Map<string, string>();
+  const tick = () => {
+    for (const sync of state.listSyncs(userId)) {
+      const fingerprint = `${sync.status}:${sync.summary.syncedRecordsCount}`;
+      if (lastSent.get(sync.id) === fingerprint) continue;
+
+      lastSent.set(sync.id, fingerprint);
+      const event = { syncId: sync.id, status: sync.status, summary: sync.summary };
+      res.write(`event: sync-status\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+  };
+
+  tick();
+  const ticker = setInterval(tick, 1_000);
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15_000);
+  req.on('close', () => {
+    clearInterval(ticker);
+    clearInterval(heartbeat);
+  });
+}
+
+export function createMockHandler(state: MockBackendState) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    const url = new URL(req.url ?? '/', 'http://mock.local');
+    const route = `${req.method} ${url.pathname}`;
+
+    try {
+      if (route === 'POST /api/v1/paragon/token') {
+        const body = await readJson(req);
+        if (typeof body.userId !== 'string' || !body.userId) {
+          throw new MockHttpError(400, 'Missing required field: userId');
+        }
+        send(res, 200, { token: state.mintToken(body.userId) });
+        return true;
+      }
+
+      if (route === 'POST /api/v1/webhooks/paragon/sync') {
+        send(res, 201, state.configureSync(await readJson(req)));
+        return true;
+      }
+
+      if (route === 'POST /api/v1/ingest') {
+        const formData = await readFormData(req);
+        const file = formData.get('file');
+        if (!(file instanceof File)) {
+          throw new MockHttpError(400, 'Missing file part');
+        }
+        let request: Record<string, unknown>;
+        try {
+          request = JSON.parse(String(formData.get('request') ?? '{}'));
+        } catch {
+          throw new MockHttpError(400, 'The request part is not valid JSON');
+        }
+        send(res, 201, state.ingestFile(file, request));
+        return true;
+      }
+
+      const artifactMatch = url.pathname.match(/^\/api\/v1\/artifacts\/([^/]+)$/);
+      if (req.method === 'GET' && artifactMatch) {
+        send(res, 200, state.getArtifact(decodeURIComponent(artifactMatch[1])));
+        return true;
+      }
+
+      if (route === 'POST /api/v1/ingest/uploads') {
+        send(res, 201, state.startUpload(await readJson(req)));
+        return true;
+      }
+
+      const uploadMatch = url.pathname.match(
+        /^\/api\/v1\/ingest\/uploads\/([^/]+)(?:\/(complete|parts\/(\d+)))?$/,
+      );
+      if (uploadMatch) {
+        const [, uploadId, action, partNumber] = uploadMatch;
+
+        if (req.method === 'GET' && !action) {
+          send(res, 200, state.getUpload(uploadId));
+          return true;
+        }
+        if (req.method === 'PUT' && partNumber) {
+          send(res, 200, state.uploadPart(uploadId, Number(partNumber), await readBody(req)));
+          return true;
+        }
+        if (req.method === 'POST' && action === 'complete') {
+          send(res, 201, state.completeUpload(uploadId));
+          return true;
+        }
+      }
+
+      if (route === 'POST /api/v1/paragon/drive/uploads') {
+        send(res, 201, state.startDriveUpload(await readJson(req)));
+        return true;
+      }
+
+      const driveUploadMatch = url.pathname.match(/^\/mock\/drive\/uploads\/([^/]+)$/);
+      if (req.method === 'PUT' && driveUploadMatch) {
+        const result = state.uploadDriveChunk(
+          driveUploadMatch[1],
+          req.headers['content-range'] ?? '',
+          await readBody(req),
+        );
+        if (result.file) {
+          send(res, 200, result.file);
+        } else {
+          res.statusCode = 308;
+          if (result.received > 0) {
+            res.setHeader('Range', `bytes=0-${result.received - 1}`);
+          }
+          res.end();
+        }
+        return true;
+      }
+
+      if (route === 'GET /api/v1/syncs/events') {
+        const token = url.searchParams.get('token');
+        if (!token) {
+          throw new MockHttpError(401, 'Missing token');
+        }
+        streamSyncEvents(state, userIdFromToken(token), req, res);
+        return true;
+      }
+
+      if (route === 'GET /api/syncs') {
+        send(res, 200, { data: state.listSyncs(requireBearer(req)) });
+        return true;
+      }
+
+      const syncMatch = url.pathname.match(/^\/api\/syncs\/([^/]+)(?:\/(disable|enable|resync))?$/);
+      if (syncMatch) {
+        requireBearer(req);
+        const syncId = decodeURIComponent(syncMatch[1]);
+        const action = syncMatch[2];
+
+        if (req.method === 'GET' && !action) {
+          send(res, 200, state.getSyncStatus(syncId));
+          return true;
+        }
+        if (req.method === 'DELETE' && !action) {
+          state.deleteSync(syncId);
+          res.statusCode = 204;
+          res.end();
+          return true;
+        }
+        if (req.method === 'POST' && action === 'disable') {
+          send(res, 200, state.pauseSync(syncId));
+          return true;
+        }
+        if (req.method === 'POST' && action === 'enable') {
+          send(res, 200, state.resumeSync(syncId));
+          return true;
+        }
+        if (req.method === 'POST' && action === 'resync') {
+          send(res, 200, state.resync(syncId));
+          return true;
+        }
+      }
+
+      return false;
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        send(res, error.status, { error: error.message });
+      } else {
+        send(res, 500, { error: error instanceof Error ? error.message : 'Internal error' });
+      }
+      return true;
+    }
+  };
+}
+
+// Serves the backend endpoints from the Vite dev server so the app can run
+// without the real backend or the Paragon Sync API.
+export function mockBackend(options: MockBackendOptions = {}): Plugin {
+  return {
+    name: 'paragon-mock-backend',
+    apply: 'serve',
+    configureServer(server) {
+      const handle = createMockHandler(new MockBackendState(options));
+      server.config.logger.info('  ➜  Mock backend enabled');
+
+      server.middlewares.use((req, res, next) => {
+        handle(req, res).then((handled) => {
+          if (!handled) next();
+        }, next);
+      });
+    },
+  };
+}
@@ -1,15 +1,19 @@
 import { Header } from '@/components/layout/header';
+import { ReactNode } from 'react';
 import { paragon } from '@useparagon/connect';
 import { useQuery } from '@tanstack/react-query';
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 
-import { getAppConfig } from '@/lib/config';
-import { ParagonService } from '@/lib/paragon-service';
+import { getTokenManager } from '@/lib/token-manager';
 import { ThemeProvider } from '@/lib/themes/theme-provider';
 import { IntegrationList } from '@/components/feature/integration/integration-list';
 import { IntegrationCard } from '@/components/feature/integration/integration-card';
 import { ErrorCard } from '@/components/ui/error-card';
-// import { GoogleDriveManager } from '@/components/pages/custom-file-manager';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { GoogleDriveManager } from '@/components/pages/custom-file-manager';
+import { useAuthenticatedUser } from '@/lib/hooks';
+import { GOOGLE_DRIVE_INTEGRATION } from '@/lib/google-drive-client';
 
 export function App() {
   return (
@@ -20,10 +24,18 @@ export function App() {
           <Routes>
             <Route path="/" element={
               <div className="container mx-auto py-4 px-8">
-                <AuthenticatedApp />
+                <AuthenticatedApp>
+                  <IntegrationList />
+                </AuthenticatedApp>
+              </div>
+            } />
+            <Route path="/google-drive" element={
+              <div className="container mx-auto py-4 px-8">
+                <AuthenticatedApp>
+                  <GoogleDriveRoute />
+                </AuthenticatedApp>
               </div>
             } />
-            {/* <Route path="/google-drive" element={<GoogleDriveManager />} /> */}
           </Routes>
         </div>
       </Router>
@@ -32,26 +44,15 @@ export function App() {
 }
 
 async function authenticate() {
-  const config = getAppConfig();
-
-  if (!config.success) {
-    throw config.error;
-  }
-
-  // Generate token dynamically from backend
-  const paragonService = new ParagonService(config.data.VITE_API_BASE_URL);
-  const token = await paragonService.generateToken(config.data.VITE_PARAGON_USER_ID);
-
-  await paragon.authenticate(
-    config.data.VITE_PARAGON_PROJECT_ID,
-    token,
-  );
+  // Mints the user token, authenticates the SDK and keeps the token
+  // refreshed ahead of its expiry
+  await getTokenManager().getToken();
   paragon.setHeadless(true);
 
   return null;
 }
 
-function AuthenticatedApp() {
+function AuthenticatedApp({ children }: { children: ReactNode }) {
   const {
     isLoading,
     error,
@@ -79,5 +80,34 @@ function AuthenticatedApp() {
     return <ErrorCard error={error} onRetry={reauthenticate} />;
   }
 
-  return <IntegrationList />;
+  return <>{children}</>;
+}
+
+// The file manager only works against a connected Google Drive account
+function GoogleDriveRoute() {
+  const { data: user } = useAuthenticatedUser();
+
+  if (!user) {
+    return <div>Loading...</div>;
+  }
+
+  if (!user.integrations[GOOGLE_DRIVE_INTEGRATION]?.enabled) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Google Drive is not connected</CardTitle>
+          <CardDescription>
+            Connect Google Drive from the integrations page to browse and sync your files.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild>
+            <Link to="/">Go to integrations</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return <GoogleDriveManager />;
 }
\ No newline at end of file
@@ -0,0 +1,261 @@
+import { ReactNode, useState } from 'react';
+import { DownloadIcon, ExternalLinkIcon, Loader2Icon } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  DriveFileRef,
+  DrivePermission,
+  DriveRevision,
+  DriveUser,
+  getDownloadName,
+  googleDrive,
+  isFolder,
+  isWorkspaceFile,
+  saveBlob,
+} from '@/lib/google-drive-client';
+import { useDriveFileDetails, useExportFormatDefaults } from '@/lib/hooks';
+
+type Props = {
+  // File shown in the drawer, null when it is closed
+  file: (DriveFileRef & { driveId?: string }) | null;
+  onClose: () => void;
+};
+
+export function DriveDetailsDrawer({ file, onClose }: Props) {
+  const { details, permissions, revisions } = useDriveFileDetails(file);
+  const { resolveExportMimeType } = useExportFormatDefaults();
+  const [downloadingRevision, setDownloadingRevision] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const downloadRevision = async (revision: DriveRevision) => {
+    if (!file) return;
+
+    try {
+      setDownloadingRevision(revision.id);
+      setDownloadError(null);
+      const downloaded = await googleDrive.downloadRevision(file, revision, {
+        exportMimeType: isWorkspaceFile(file.mimeType)
+          ? resolveExportMimeType(file.mimeType)
+          : undefined,
+      });
+      saveBlob(downloaded.blob, revisionFileName(getDownloadName(downloaded), revision));
+    } catch (err) {
+      console.error('Error downloading revision:', err);
+      setDownloadError(
+        `Failed to download revision${err instanceof Error ? `: ${err.message}` : ''}`,
+      );
+    } finally {
+      setDownloadingRevision(null);
+    }
+  };
+
+  const fileDetails = details.data?.file;
+
+  return (
+    <Sheet open={file !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-xl">
+        <SheetHeader className="pr-10">
+          <SheetTitle className="truncate">{file?.name}</SheetTitle>
+          <SheetDescription>{file?.mimeType}</SheetDescription>
+          {fileDetails?.webViewLink && (
+            <Button size="sm" variant="outline" className="w-fit" asChild>
+              <a href={fileDetails.webViewLink} target="_blank" rel="noopener noreferrer">
+                <ExternalLinkIcon className="h-4 w-4" />
+                Open in Google Drive
+              </a>
+            </Button>
+          )}
+        </SheetHeader>
+
+        <div className="min-h-0 flex-1 overflow-auto px-4 pb-4 space-y-6 text-sm">
+          <Section title="Details" query={details}>
+            {details.data && (
+              <dl className="grid grid-cols-[120px_1fr] gap-x-3 gap-y-1">
+                <dt className="text-muted-foreground">Location</dt>
+                <dd className="break-words">{details.data.path.join(' / ') || 'Unknown'}</dd>
+                <dt className="text-muted-foreground">Owners</dt>
+                <dd>
+                  {fileDetails?.owners?.length
+                    ? fileDetails.owners.map(describeUser).join(', ')
+                    : fileDetails?.driveId
+                      ? 'Owned by the shared drive'
+                      : 'Unknown'}
+                </dd>
+                <dt className="text-muted-foreground">Created</dt>
+                <dd>{formatDate(fileDetails?.createdTime)}</dd>
+                <dt className="text-muted-foreground">Modified</dt>
+                <dd>
+                  {formatDate(fileDetails?.modifiedTime)}
+                  {fileDetails?.lastModifyingUser &&
+                    ` by ${describeUser(fileDetails.lastModifyingUser)}`}
+                </dd>
+              </dl>
+            )}
+          </Section>
+
+          <Section title="Who has access" query={permissions}>
+            {permissions.data && (
+              <ul className="space-y-1">
+                {permissions.data.map((permission) => (
+                  <li
+                    key={permission.id}
+                    className="flex items-center gap-3 p-2 border rounded-md"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate">{describeGrantee(permission)}</p>
+                      {(permission.expirationTime ||
+                        permission.permissionDetails?.some((detail) => detail.inherited)) && (
+                        <p className="text-xs text-muted-foreground">
+                          {permission.permissionDetails?.some((detail) => detail.inherited) &&
+                            'Inherited. '}
+                          {permission.expirationTime &&
+                            `Expires ${formatDate(permission.expirationTime)}`}
+                        </p>
+                      )}
+                    </div>
+                    <Badge variant={permission.role === 'owner' ? 'default' : 'outline'}>
+                      {roleLabel[permission.role] ?? permission.role}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Section>
+
+          {file && !isFolder(file.mimeType) && (
+            <Section title="Revisions" query={revisions}>
+              {downloadError && <p className="text-destructive mb-2">{downloadError}</p>}
+              {revisions.data && revisions.data.length === 0 && (
+                <p className="text-muted-foreground">No revisions available.</p>
+              )}
+              {revisions.data && revisions.data.length > 0 && (
+                <ul className="space-y-1">
+                  {revisions.data.map((revision, index) => (
+                    <li
+                      key={revision.id}
+                      className="flex items-center gap-3 p-2 border rounded-md"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="flex items-center gap-2">
+                          {formatDate(revision.modifiedTime)}
+                          {index === 0 && <Badge variant="secondary">Current</Badge>}
+                          {revision.keepForever && <Badge variant="outline">Kept</Badge>}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {revision.lastModifyingUser
+                            ? describeUser(revision.lastModifyingUser)
+                            : 'Unknown user'}
+                          {revision.size && ` · ${formatFileSize(parseInt(revision.size))}`}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Download this revision"
+                        disabled={downloadingRevision !== null}
+                        onClick={() => downloadRevision(revision)}
+                      >
+                        {downloadingRevision === revision.id ? (
+                          <Loader2Icon className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <DownloadIcon className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function Section({
+  title,
+  query,
+  children,
+}: {
+  title: string;
+  query: { isLoading: boolean; error: unknown };
+  children: ReactNode;
+}) {
+  return (
+    <section className="space-y-2">
+      <h4 className="font-medium">{title}</h4>
+      {query.isLoading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2Icon className="h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      ) : query.error ? (
+        <p className="text-destructive">
+          {query.error instanceof Error ? query.error.message : 'Failed to load'}
+        </p>
+      ) : (
+        children
+      )}
+    </section>
+  );
+}
+
+const roleLabel: Record<DrivePermission['role'], string> = {
+  owner: 'Owner',
+  organizer: 'Manager',
+  fileOrganizer: 'Content manager',
+  writer: 'Editor',
+  commenter: 'Commenter',
+  reader: 'Viewer',
+};
+
+function describeUser(user: DriveUser) {
+  if (user.displayName && user.emailAddress) {
+    return `${user.displayName} (${user.emailAddress})`;
+  }
+  return user.displayName ?? user.emailAddress ?? 'Unknown user';
+}
+
+function describeGrantee(permission: DrivePermission) {
+  switch (permission.type) {
+    case 'anyone':
+      return 'Anyone with the link';
+    case 'domain':
+      return `Anyone at ${permission.domain ?? 'the organization'}`;
+    default: {
+      const name = describeUser(permission);
+      const kind = permission.type === 'group' ? 'Group: ' : '';
+      return `${kind}${name}${permission.deleted ? ' (deleted)' : ''}`;
+    }
+  }
+}
+
+function formatDate(value?: string) {
+  return value ? new Date(value).toLocaleString() : 'Unknown';
+}
+
+function formatFileSize(bytes: number) {
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  if (bytes === 0) return '0 Bytes';
+
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + ' ' + sizes[i];
+}
+
+// Tags older revisions with their date so they don't overwrite the current file
+function revisionFileName(name: string, revision: DriveRevision) {
+  const stamp = revision.modifiedTime.slice(0, 19).replace(/[:T]/g, '-');
+  const dot = name.lastIndexOf('.');
+  return dot > 0
+    ? `${name.slice(0, dot)} (${stamp})${name.slice(dot)}`
+    : `${name} (${stamp})`;
+}
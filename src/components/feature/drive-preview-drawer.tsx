@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useState } from 'react';
+import { DownloadIcon, Loader2Icon, RefreshCwIcon, SendIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { DriveFileRef, PREVIEW_SIZE_LIMIT } from '@/lib/google-drive-client';
+import { useDrivePreview } from '@/lib/hooks';
+
+// CSV previews only show the first rows
+const CSV_ROW_LIMIT = 200;
+
+export type PreviewFile = DriveFileRef & { size?: number };
+
+export interface PreviewParentFolder {
+  id: string;
+  name: string;
+  driveId?: string;
+}
+
+type Props = {
+  // File being previewed, null when the drawer is closed
+  file: PreviewFile | null;
+  // Folder containing the file, syncs are configured per folder. Null hides
+  // the sync action when the folder isn't known.
+  parentFolder: PreviewParentFolder | null;
+  onClose: () => void;
+  onDownload: (file: PreviewFile) => void;
+  onIngest: (file: PreviewFile) => void;
+  onSyncFolder: (folder: PreviewParentFolder) => void;
+  isSyncing?: boolean;
+};
+
+export function DrivePreviewDrawer(props: Props) {
+  const tooLarge = (props.file?.size ?? 0) > PREVIEW_SIZE_LIMIT;
+  const preview = useDrivePreview(props.file, { enabled: !tooLarge });
+  const objectUrl = useObjectUrl(preview.data?.downloaded.blob);
+
+  const renderContent = () => {
+    if (tooLarge) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          This file is too large to preview (over {PREVIEW_SIZE_LIMIT / 1024 / 1024}MB).
+          Download it instead.
+        </p>
+      );
+    }
+    if (preview.isLoading) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2Icon className="h-4 w-4 animate-spin" />
+          Loading preview...
+        </div>
+      );
+    }
+    if (preview.error) {
+      return (
+        <p className="text-sm text-destructive">
+          Failed to load preview
+          {preview.error instanceof Error ? `: ${preview.error.message}` : ''}
+        </p>
+      );
+    }
+    if (!preview.data || !objectUrl) {
+      return null;
+    }
+
+    switch (preview.data.kind) {
+      case 'pdf':
+        return (
+          <iframe
+            src={objectUrl}
+            title={props.file?.name}
+            className="h-full min-h-[70vh] w-full rounded-md border"
+          />
+        );
+      case 'image':
+        return (
+          <img
+            src={objectUrl}
+            alt={props.file?.name}
+            className="mx-auto max-h-full max-w-full object-contain"
+          />
+        );
+      case 'csv':
+        return <CsvTable text={preview.data.text ?? ''} />;
+      case 'text':
+        return (
+          <pre className="whitespace-pre-wrap break-words rounded-md border bg-muted/50 p-3 text-xs">
+            {preview.data.text}
+          </pre>
+        );
+      default:
+        return (
+          <p className="text-sm text-muted-foreground">
+            Files of type {preview.data.downloaded.mimeType} can't be previewed.
+          </p>
+        );
+    }
+  };
+
+  return (
+    <Sheet open={props.file !== null} onOpenChange={(open) => !open && props.onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl">
+        <SheetHeader className="pr-10">
+          <SheetTitle className="truncate">{props.file?.name}</SheetTitle>
+          <SheetDescription>{props.file?.mimeType}</SheetDescription>
+          {props.file && (
+            <div className="flex gap-2 pt-2">
+              <Button size="sm" variant="outline" onClick={() => props.onDownload(props.file!)}>
+                <DownloadIcon className="h-4 w-4" />
+                Download
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => props.onIngest(props.file!)}>
+                <SendIcon className="h-4 w-4" />
+                Send to ingestion
+              </Button>
+              {props.parentFolder && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title={`Configure a sync for the folder this file is in: ${props.parentFolder.name}`}
+                  disabled={props.isSyncing}
+                  onClick={() => props.onSyncFolder(props.parentFolder!)}
+                >
+                  <RefreshCwIcon className="h-4 w-4" />
+                  {props.isSyncing ? 'Configuring...' : 'Sync Parent Folder'}
+                </Button>
+              )}
+            </div>
+          )}
+        </SheetHeader>
+        <div className="min-h-0 flex-1 overflow-auto px-4 pb-4">{renderContent()}</div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// Object URL for a blob, revoked when the blob changes or on unmount
+function useObjectUrl(blob?: Blob) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
+
+function CsvTable({ text }: { text: string }) {
+  const rows = useMemo(() => parseCsv(text, CSV_ROW_LIMIT + 1), [text]);
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">This sheet is empty.</p>;
+  }
+
+  const [header, ...body] = rows;
+  return (
+    <div className="space-y-2">
+      <div className="overflow-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/50">
+            <tr>
+              {header.map((cell, index) => (
+                <th key={index} className="border-b px-2 py-1 text-left font-medium">
+                  {cell}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {body.slice(0, CSV_ROW_LIMIT).map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-b last:border-0">
+                {row.map((cell, index) => (
+                  <td key={index} className="px-2 py-1 whitespace-nowrap">
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {body.length > CSV_ROW_LIMIT && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {CSV_ROW_LIMIT} rows.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines in quotes
+function parseCsv(text: string, maxRows: number) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if ((field || row.length > 0) && rows.length < maxRows) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,121 @@
+import { FormEvent, useState } from 'react';
+import { SearchIcon, XIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DriveSearchFilters,
+  MIME_FAMILY_LABELS,
+  MimeFamily,
+  hasSearchFilters,
+} from '@/lib/google-drive-client';
+
+// Radix selects can't use an empty value, so "any" stands for no filter
+const ANY_TYPE = 'any';
+
+type Props = {
+  isSearching: boolean;
+  // Called with null when the search is cleared
+  onSearch: (filters: DriveSearchFilters | null) => void;
+};
+
+export function DriveSearchBar(props: Props) {
+  const [filters, setFilters] = useState<DriveSearchFilters>({});
+
+  const update = (update: Partial<DriveSearchFilters>) =>
+    setFilters((prev) => ({ ...prev, ...update }));
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    props.onSearch(hasSearchFilters(filters) ? filters : null);
+  };
+
+  const clear = () => {
+    setFilters({});
+    props.onSearch(null);
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3 p-3 border rounded-lg">
+      <div className="flex gap-2">
+        <Input
+          value={filters.text ?? ''}
+          onChange={(event) => update({ text: event.target.value })}
+          placeholder={filters.nameOnly ? 'Search file names' : 'Search file contents'}
+        />
+        <Button type="submit" disabled={props.isSearching}>
+          <SearchIcon className="h-4 w-4" />
+          Search
+        </Button>
+        <Button type="button" variant="ghost" title="Clear search" onClick={clear}>
+          <XIcon className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="drive-search-mode">Match</Label>
+          <Select
+            value={filters.nameOnly ? 'name' : 'fullText'}
+            onValueChange={(value) => update({ nameOnly: value === 'name' })}
+          >
+            <SelectTrigger id="drive-search-mode" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fullText">Full text</SelectItem>
+              <SelectItem value="name">Name only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="drive-search-type">Type</Label>
+          <Select
+            value={filters.mimeFamily ?? ANY_TYPE}
+            onValueChange={(value) =>
+              update({ mimeFamily: value === ANY_TYPE ? undefined : (value as MimeFamily) })
+            }
+          >
+            <SelectTrigger id="drive-search-type" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_TYPE}>Any type</SelectItem>
+              {Object.entries(MIME_FAMILY_LABELS).map(([family, label]) => (
+                <SelectItem key={family} value={family}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="drive-search-owner">Owner</Label>
+          <Input
+            id="drive-search-owner"
+            type="email"
+            value={filters.owner ?? ''}
+            onChange={(event) => update({ owner: event.target.value })}
+            placeholder="owner@example.com"
+          />
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="drive-search-modified">Modified after</Label>
+          <Input
+            id="drive-search-modified"
+            type="date"
+            value={filters.modifiedAfter ?? ''}
+            onChange={(event) => update({ modifiedAfter: event.target.value || undefined })}
+          />
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { FileDropZone } from '@/components/ui/file-upload';
+import { DriveUpload, DriveUploadStatus } from '@/lib/hooks';
+
+type Props = {
+  folderName: string;
+  uploads: DriveUpload[];
+  onFiles: (files: File[]) => void;
+  onClearFinished: () => void;
+  disabled?: boolean;
+};
+
+export function DriveUploadPanel(props: Props) {
+  const finishedCount = props.uploads.filter((upload) => upload.status !== 'uploading').length;
+
+  return (
+    <div className="space-y-2">
+      <FileDropZone
+        id="google-drive-upload"
+        multiple
+        disabled={props.disabled}
+        onFiles={props.onFiles}
+      >
+        <p className="text-xs text-muted-foreground">
+          Files are uploaded to {props.folderName}
+        </p>
+      </FileDropZone>
+
+      {props.uploads.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-sm">Uploads</h4>
+            {finishedCount > 0 && (
+              <Button size="sm" variant="ghost" onClick={props.onClearFinished}>
+                Clear finished
+              </Button>
+            )}
+          </div>
+          <ul className="space-y-1">
+            {props.uploads.map((upload) => (
+              <li key={upload.id} className="flex items-center gap-3 p-2 border rounded-md text-sm">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{upload.name}</p>
+                  {upload.status !== 'failed' && (
+                    <div className="mt-1 h-1 w-full rounded-full bg-border overflow-hidden">
+                      <div
+                        className="h-full bg-primary transition-[width]"
+                        style={{ width: `${uploadPercent(upload)}%` }}
+                      />
+                    </div>
+                  )}
+                  {upload.error && (
+                    <p className="text-xs text-destructive truncate">{upload.error}</p>
+                  )}
+                </div>
+                <Badge variant="outline" className={statusClassName[upload.status]}>
+                  {statusLabel[upload.status]}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function uploadPercent(upload: DriveUpload) {
+  if (upload.status === 'uploaded' || upload.size === 0) return 100;
+  return Math.round((upload.loaded / upload.size) * 100);
+}
+
+const statusClassName: Record<DriveUploadStatus, string> = {
+  uploading: 'text-blue-600',
+  uploaded: 'text-green-600',
+  failed: 'text-destructive',
+};
+
+const statusLabel: Record<DriveUploadStatus, string> = {
+  uploading: 'Uploading',
+  uploaded: 'Uploaded',
+  failed: 'Failed',
+};
@@ -0,0 +1,67 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { EXPORT_FORMAT_OPTIONS, getExportFormats } from '@/lib/google-drive-client';
+import { useExportFormatDefaults } from '@/lib/hooks';
+
+const WORKSPACE_TYPE_LABELS: Record<string, string> = {
+  'application/vnd.google-apps.document': 'Google Docs',
+  'application/vnd.google-apps.spreadsheet': 'Google Sheets',
+  'application/vnd.google-apps.presentation': 'Google Slides',
+};
+
+type Props = {
+  // Drive mime type of the Workspace file
+  mimeType: string;
+  value: string;
+  onChange: (exportMimeType: string) => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+export function ExportFormatSelect(props: Props) {
+  return (
+    <Select value={props.value} onValueChange={props.onChange} disabled={props.disabled}>
+      <SelectTrigger size="sm" className={props.className} title="Export format">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {getExportFormats(props.mimeType).map((format) => (
+          <SelectItem key={format.mimeType} value={format.mimeType}>
+            {format.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Workspace-wide default export format for each Google Workspace type
+export function ExportFormatDefaults() {
+  const { setExportFormat, resolveExportMimeType } = useExportFormatDefaults();
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm">Default export formats</h4>
+      <p className="text-xs text-muted-foreground">
+        Google Workspace files are converted to these formats when downloaded or
+        ingested, unless a file overrides it.
+      </p>
+      {Object.keys(EXPORT_FORMAT_OPTIONS).map((mimeType) => (
+        <div key={mimeType} className="flex items-center justify-between gap-3">
+          <span className="text-sm">{WORKSPACE_TYPE_LABELS[mimeType] ?? mimeType}</span>
+          <ExportFormatSelect
+            mimeType={mimeType}
+            value={resolveExportMimeType(mimeType)}
+            onChange={(exportMimeType) => setExportFormat(mimeType, exportMimeType)}
+            className="w-[180px]"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
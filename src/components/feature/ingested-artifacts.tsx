@@ -0,0 +1,127 @@
+import { ExternalLinkIcon, FileTextIcon, Loader2Icon, XIcon } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useIngestedArtifacts } from '@/lib/hooks';
+import { Artifact, isTerminalProcessingStatus } from '@/lib/paragon-service';
+
+export function IngestedArtifacts() {
+  const { artifacts, untrackArtifact } = useIngestedArtifacts();
+
+  if (artifacts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileTextIcon className="h-5 w-5" />
+          Ingested artifacts
+        </CardTitle>
+        <CardDescription>
+          Files sent to the ingestion service and their processing status
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {artifacts.map(({ artifactId, artifact, isLoading, error }) => (
+            <li
+              key={artifactId}
+              className="flex items-start justify-between gap-3 p-3 border rounded-lg bg-muted/50"
+            >
+              {artifact ? (
+                <ArtifactDetails artifact={artifact} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {isLoading
+                    ? 'Loading artifact...'
+                    : error instanceof Error
+                      ? error.message
+                      : `Artifact ${artifactId}`}
+                </p>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Stop tracking"
+                onClick={() => untrackArtifact(artifactId)}
+              >
+                <XIcon className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ArtifactDetails({ artifact }: { artifact: Artifact }) {
+  const sourceUrl = getSourceUrl(artifact);
+
+  return (
+    <div className="min-w-0 flex-1 space-y-1">
+      <div className="flex items-center gap-2">
+        <p className="text-sm font-medium truncate">{artifact.filename}</p>
+        <Badge variant="outline" className={getStatusColor(artifact.processingStatus)}>
+          {!isTerminalProcessingStatus(artifact.processingStatus) && (
+            <Loader2Icon className="animate-spin" />
+          )}
+          {artifact.processingStatus}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {artifact.mimeType} · {formatFileSize(artifact.fileSize)} ·{' '}
+        {new Date(artifact.createdAt).toLocaleString()}
+      </p>
+      <div className="flex flex-wrap items-center gap-1">
+        {artifact.tags?.map((tag) => (
+          <Badge key={tag} variant="secondary">
+            {tag}
+          </Badge>
+        ))}
+        {sourceUrl && (
+          <a
+            href={sourceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs text-primary hover:underline ml-1"
+          >
+            <ExternalLinkIcon className="h-3 w-3" />
+            Source file
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Links back to the Drive file using the metadata sent at ingestion time
+function getSourceUrl(artifact: Artifact) {
+  const originalId = artifact.metadata?.originalId;
+  if (artifact.metadata?.source !== 'google-drive' || typeof originalId !== 'string') {
+    return null;
+  }
+  return `https://drive.google.com/file/d/${encodeURIComponent(originalId)}/view`;
+}
+
+function getStatusColor(status: Artifact['processingStatus']) {
+  switch (status) {
+    case 'COMPLETED':
+      return 'text-green-600';
+    case 'FAILED':
+      return 'text-destructive';
+    default:
+      return 'text-blue-600';
+  }
+}
+
+function formatFileSize(bytes: number) {
+  if (!bytes) return '0 Bytes';
+
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + ' ' + sizes[i];
+}
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { ChevronRightIcon, FileIcon, FolderIcon, Loader2Icon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FOLDER_MIME_TYPE, FileStorageAdapter, FolderRef, SelectedFile } from '@/lib/file-storage';
+import { SharedDrive } from '@/lib/google-drive-client';
+import { useFileStorageFolder } from '@/lib/hooks';
+
+interface FolderCrumb {
+  // null for the root folder
+  folder: FolderRef;
+  name: string;
+}
+
+type Props = {
+  adapter: FileStorageAdapter;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (files: SelectedFile[]) => void;
+  // Mime types that can be picked, empty for any file
+  allowedTypes: string[];
+  allowMultiSelect: boolean;
+  allowFolderSelect: boolean;
+  // Shared drives listed next to the root folder's items
+  sharedDrives?: SharedDrive[];
+};
+
+// Picker for providers without a native one in paragon.ExternalFilePicker,
+// and for Google Drive's shared drives, browsing folders through paragon.request
+export function FileBrowserDialog(props: Props) {
+  const [breadcrumb, setBreadcrumb] = useState<FolderCrumb[]>([
+    { folder: null, name: props.adapter.name },
+  ]);
+  const [selected, setSelected] = useState<SelectedFile[]>([]);
+  const currentFolder = breadcrumb[breadcrumb.length - 1];
+
+  const folder = useFileStorageFolder(props.adapter.integration, currentFolder.folder, {
+    enabled: props.open,
+  });
+  const folderItems = folder.data?.pages.flatMap((page) => page.items) ?? [];
+  // A shared drive's ID is also the ID of its root folder
+  const items: SelectedFile[] =
+    currentFolder.folder === null && props.sharedDrives
+      ? [
+          ...props.sharedDrives.map((drive) => ({
+            id: drive.id,
+            name: drive.name,
+            mimeType: FOLDER_MIME_TYPE,
+            driveId: drive.id,
+          })),
+          ...folderItems,
+        ]
+      : folderItems;
+
+  const isSelectable = (item: SelectedFile) =>
+    item.mimeType === FOLDER_MIME_TYPE
+      ? props.allowFolderSelect
+      : props.allowedTypes.length === 0 || props.allowedTypes.includes(item.mimeType);
+
+  const toggle = (item: SelectedFile) => {
+    setSelected((prev) => {
+      if (prev.some((file) => file.id === item.id)) {
+        return prev.filter((file) => file.id !== item.id);
+      }
+      return props.allowMultiSelect ? [...prev, item] : [item];
+    });
+  };
+
+  const close = () => {
+    setSelected([]);
+    props.onOpenChange(false);
+  };
+
+  const confirm = () => {
+    props.onSelect(selected);
+    close();
+  };
+
+  return (
+    <Dialog open={props.open} onOpenChange={(open) => (open ? props.onOpenChange(true) : close())}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Select from {props.adapter.name}</DialogTitle>
+          <DialogDescription>
+            {props.allowMultiSelect ? 'Select one or more items' : 'Select an item'}
+            {props.allowFolderSelect ? ', folders included.' : '. Open folders to browse them.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <nav className="flex flex-wrap items-center gap-1 text-sm">
+          {breadcrumb.map((crumb, index) => (
+            <span key={crumb.folder?.id ?? 'root'} className="flex items-center gap-1">
+              {index > 0 && <ChevronRightIcon className="h-4 w-4 text-muted-foreground" />}
+              {index === breadcrumb.length - 1 ? (
+                <span className="font-medium">{crumb.name}</span>
+              ) : (
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => setBreadcrumb(breadcrumb.slice(0, index + 1))}
+                >
+                  {crumb.name}
+                </button>
+              )}
+            </span>
+          ))}
+        </nav>
+
+        <div className="h-[360px] overflow-auto border rounded-md">
+          {folder.isLoading ? (
+            <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+              <Loader2Icon className="h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          ) : folder.error instanceof Error ? (
+            <p className="p-3 text-sm text-destructive">{folder.error.message}</p>
+          ) : items.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">This folder is empty.</p>
+          ) : (
+            <ul>
+              {items.map((item) => {
+                const isFolder = item.mimeType === FOLDER_MIME_TYPE;
+                const isSelected = selected.some((file) => file.id === item.id);
+                const selectable = isSelectable(item);
+
+                return (
+                  <li
+                    key={item.id}
+                    className={`flex items-center gap-3 px-3 py-2 text-sm border-b last:border-0 ${
+                      isSelected ? 'bg-primary/10' : ''
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      disabled={!selectable}
+                      onChange={() => toggle(item)}
+                      aria-label={`Select ${item.name}`}
+                    />
+                    {isFolder ? (
+                      <FolderIcon className="h-4 w-4 text-blue-500" />
+                    ) : (
+                      <FileIcon className="h-4 w-4 text-gray-500" />
+                    )}
+                    {isFolder ? (
+                      <button
+                        type="button"
+                        className="min-w-0 flex-1 truncate text-left hover:underline"
+                        onClick={() =>
+                          setBreadcrumb([...breadcrumb, { folder: item, name: item.name }])
+                        }
+                      >
+                        {item.name}
+                      </button>
+                    ) : (
+                      <span
+                        className={`min-w-0 flex-1 truncate ${
+                          selectable ? '' : 'text-muted-foreground'
+                        }`}
+                      >
+                        {item.name}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {folder.hasNextPage && (
+            <div className="flex justify-center p-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={folder.isFetchingNextPage}
+                onClick={() => folder.fetchNextPage()}
+              >
+                {folder.isFetchingNextPage ? 'Loading more...' : 'Load more'}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button disabled={selected.length === 0} onClick={confirm}>
+            Select {selected.length > 0 ? `(${selected.length})` : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { MIME_PRESETS, MimePreset, parseMimeTypes } from '@/lib/file-picker-settings';
+import { useFilePickerSettings } from '@/lib/hooks';
+
+export function FilePickerSettingsPanel() {
+  const { settings, updateSettings } = useFilePickerSettings();
+  const [customMimeTypes, setCustomMimeTypes] = useState(settings.customMimeTypes.join(', '));
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium text-sm">Picker settings</h4>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label htmlFor="picker-mime-preset">Allowed types</Label>
+        <Select
+          value={settings.mimePreset}
+          onValueChange={(value) => updateSettings({ mimePreset: value as MimePreset })}
+        >
+          <SelectTrigger id="picker-mime-preset" size="sm" className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(MIME_PRESETS).map(([preset, { label }]) => (
+              <SelectItem key={preset} value={preset}>
+                {label}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">Custom</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {settings.mimePreset === 'custom' && (
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="picker-custom-mime-types">Custom mime types</Label>
+          <Input
+            id="picker-custom-mime-types"
+            value={customMimeTypes}
+            onChange={(event) => setCustomMimeTypes(event.target.value)}
+            onBlur={() => updateSettings({ customMimeTypes: parseMimeTypes(customMimeTypes) })}
+            placeholder="application/pdf, text/csv"
+          />
+          <p className="text-xs text-muted-foreground">
+            Comma separated. Leave empty to allow any file.
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <Label htmlFor="picker-folder-select">Allow selecting folders</Label>
+        <Switch
+          id="picker-folder-select"
+          checked={settings.allowFolderSelect}
+          onCheckedChange={(allowFolderSelect) => updateSettings({ allowFolderSelect })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label htmlFor="picker-multi-select">Allow selecting several items</Label>
+        <Switch
+          id="picker-multi-select"
+          checked={settings.allowMultiSelect}
+          onCheckedChange={(allowMultiSelect) => updateSettings({ allowMultiSelect })}
+        />
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <Label htmlFor="picker-start-folder">Starting Google Drive folder ID</Label>
+        <Input
+          id="picker-start-folder"
+          value={settings.startFolderId}
+          onChange={(event) => updateSettings({ startFolderId: event.target.value })}
+          placeholder="Default view"
+        />
+        <p className="text-xs text-muted-foreground">
+          Only used by the Google Drive picker, which can't open shared drives,
+          only files shared with you.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="picker-shared-drives">Include shared drives</Label>
+          <Switch
+            id="picker-shared-drives"
+            checked={settings.includeSharedDrives}
+            onCheckedChange={(includeSharedDrives) => updateSettings({ includeSharedDrives })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Google Drive opens in the built-in browser instead of the Google picker,
+          which has no shared drive support. The starting folder is ignored.
+        </p>
+      </div>
+    </div>
+  );
+}
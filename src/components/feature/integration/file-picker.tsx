@@ -0,0 +1,342 @@
+import { useState } from 'react';
+import { paragon } from '@useparagon/connect';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { FolderIcon, FileIcon, DownloadIcon, AlertCircleIcon, SendIcon, XIcon, Settings2Icon, FileArchiveIcon } from 'lucide-react';
+import { getDownloadName, isFolder, isWorkspaceFile, saveBlob } from '@/lib/google-drive-client';
+import { FileStorageIntegration, SelectedFile, getFileStorageAdapter } from '@/lib/file-storage';
+import { useExportFormatDefaults, useFilePickerSettings, useSharedDrives } from '@/lib/hooks';
+import {
+  getAllowedMimeTypes,
+  toFilePickerInitOptions,
+  toFilePickerOptions,
+} from '@/lib/file-picker-settings';
+import { useDriveIngestion } from '@/lib/drive-ingestion';
+import { useZipDownload } from '@/lib/drive-zip';
+import { ZipDownloadProgressDisplay } from '../zip-download-progress';
+import { ExportFormatDefaults, ExportFormatSelect } from '../export-format-select';
+import { IngestionQueuePanel } from './ingestion-queue-panel';
+import { FilePickerSettingsPanel } from './file-picker-settings-panel';
+import { FileBrowserDialog } from './file-browser-dialog';
+
+export interface FilePickerProps {
+  integration: FileStorageIntegration;
+  onFileSelect?: (files: SelectedFile[], integration: FileStorageIntegration) => void;
+  onCloseModal?: () => void;
+  // How many files are ingested at the same time
+  ingestionConcurrency?: number;
+}
+
+// Picks files from a file storage provider with paragon.ExternalFilePicker,
+// or with a browser built on paragon.request when the SDK has no picker for it
+export function FilePicker({ integration, onFileSelect, onCloseModal, ingestionConcurrency = 3 }: FilePickerProps) {
+  const adapter = getFileStorageAdapter(integration);
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isBrowserOpen, setIsBrowserOpen] = useState(false);
+  const ingestionQueue = useDriveIngestion({ concurrency: ingestionConcurrency, integration });
+  const zipDownload = useZipDownload(integration);
+  const { resolveExportMimeType } = useExportFormatDefaults();
+  // Export formats chosen for individual files, keyed by file ID
+  const [exportOverrides, setExportOverrides] = useState<Record<string, string>>({});
+  const [showSettings, setShowSettings] = useState(false);
+  const { settings: pickerSettings } = useFilePickerSettings();
+  // The native Google picker can't show shared drives, the browser can
+  const listsSharedDrives = integration === 'googledrive' && pickerSettings.includeSharedDrives;
+  const usesBrowser = !adapter.hasNativePicker || listsSharedDrives;
+  const sharedDrives = useSharedDrives({ enabled: listsSharedDrives });
+
+  // Only Google Workspace files need an export format
+  const isExportable = (mimeType: string) =>
+    integration === 'googledrive' && isWorkspaceFile(mimeType) && !isFolder(mimeType);
+
+  const selectFiles = (files: SelectedFile[]) => {
+    setSelectedFiles(files);
+    onFileSelect?.(files, integration);
+  };
+
+  const getExportOptions = (file: SelectedFile) =>
+    isExportable(file.mimeType)
+      ? { exportMimeType: resolveExportMimeType(file.mimeType, exportOverrides[file.id]) }
+      : {};
+
+  const openFilePicker = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      
+      // Close the modal when opening file picker
+      onCloseModal?.();
+
+      if (usesBrowser) {
+        setIsBrowserOpen(true);
+        return;
+      }
+
+      // Only the Google picker needs its own credentials
+      const apiKey = import.meta.env.VITE_GOOGLE_API_KEY;
+      const appId = import.meta.env.VITE_GOOGLE_APP_ID;
+
+      if (integration === 'googledrive' && (!apiKey || !appId)) {
+        throw new Error('Google API Key or App ID not configured. Please check your environment variables.');
+      }
+
+      // Initialize the file picker
+      const picker = new paragon.ExternalFilePicker(integration, {
+        ...toFilePickerOptions(pickerSettings),
+        onFileSelect: (files: unknown) => {
+          console.log('Files selected:', files);
+          selectFiles(adapter.normalizePickerResponse(files));
+        }
+      });
+
+      // Load external dependencies and user's access token
+      await picker.init(
+        toFilePickerInitOptions(
+          pickerSettings,
+          integration,
+          integration === 'googledrive' ? { developerKey: apiKey, appId } : { developerKey: '' },
+        ),
+      );
+
+      // Open the File Picker
+      picker.open();
+
+    } catch (err) {
+      console.error('Error opening file picker:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open file picker');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const downloadFile = async (file: SelectedFile) => {
+    try {
+      setError(null);
+      const downloaded = await adapter.download(file, getExportOptions(file));
+      saveBlob(downloaded.blob, getDownloadName(downloaded));
+    } catch (err) {
+      console.error('Error downloading file:', err);
+      setError(`Failed to download ${file.name}`);
+    }
+  };
+
+  const sendFileToIngestion = (file: SelectedFile) => {
+    ingestionQueue.ingestFile(file, getExportOptions(file));
+  };
+
+  const downloadAsZip = () => {
+    const onlyFolder = selectedFiles.length === 1 && isFolder(selectedFiles[0].mimeType);
+    zipDownload.downloadZip(selectedFiles, {
+      archiveName: onlyFolder ? selectedFiles[0].name : `${adapter.name} files`,
+      resolveExportMimeType: (file) => getExportOptions(file).exportMimeType,
+    });
+  };
+
+  const sendAllToIngestion = () => {
+    selectedFiles
+      .filter(file => !file.mimeType.includes('folder'))
+      .forEach(sendFileToIngestion);
+  };
+
+  const formatFileSize = (bytes?: number) => {
+    if (!bytes) return 'Unknown size';
+    
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    if (bytes === 0) return '0 Bytes';
+    
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+  };
+
+  const getFileIcon = (mimeType: string) => {
+    if (mimeType.includes('folder')) {
+      return <FolderIcon className="h-5 w-5 text-blue-500" />;
+    }
+    return <FileIcon className="h-5 w-5 text-gray-500" />;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FolderIcon className="h-5 w-5" />
+          {adapter.name} File Picker
+        </CardTitle>
+        <CardDescription>
+          Select files from your connected {adapter.name} account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button 
+            onClick={openFilePicker} 
+            disabled={isLoading}
+            className="flex-1"
+          >
+            {isLoading ? 'Loading...' : 'Open File Picker'}
+          </Button>
+          <Button
+            variant="outline"
+            title="Picker settings"
+            onClick={() => setShowSettings((show) => !show)}
+          >
+            <Settings2Icon className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {showSettings && (
+          <div className="p-3 border rounded-lg space-y-4">
+            <FilePickerSettingsPanel />
+            {integration === 'googledrive' && <ExportFormatDefaults />}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 text-sm bg-destructive/10 border border-destructive/20 rounded-md text-destructive">
+            <AlertCircleIcon className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {selectedFiles.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-sm">Selected Files:</h4>
+              <div className="flex gap-2">
+                {(selectedFiles.length > 1 || selectedFiles.some((file) => isFolder(file.mimeType))) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={zipDownload.isZipping}
+                    onClick={downloadAsZip}
+                  >
+                    <FileArchiveIcon className="h-4 w-4" />
+                    Download as ZIP
+                  </Button>
+                )}
+                {selectedFiles.length > 1 && (
+                  <Button size="sm" variant="outline" onClick={sendAllToIngestion}>
+                    <SendIcon className="h-4 w-4" />
+                    Ingest all
+                  </Button>
+                )}
+              </div>
+            </div>
+            <ZipDownloadProgressDisplay
+              progress={zipDownload.progress}
+              isZipping={zipDownload.isZipping}
+              error={zipDownload.error}
+              onCancel={zipDownload.cancel}
+              onDismiss={zipDownload.reset}
+            />
+            <div className="space-y-2">
+              {selectedFiles.map((file) => {
+                const ingestion = ingestionQueue.getItem(file.id);
+                const isIngesting =
+                  ingestion?.status === 'queued' ||
+                  ingestion?.status === 'downloading' ||
+                  ingestion?.status === 'uploading';
+
+                return (
+                  <div
+                    key={file.id}
+                    className="p-3 border rounded-lg bg-muted/50"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3 min-w-0 flex-1">
+                        {getFileIcon(file.mimeType)}
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium truncate">{file.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatFileSize(file.size)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2 ml-2">
+                        {isExportable(file.mimeType) && (
+                          <ExportFormatSelect
+                            mimeType={file.mimeType}
+                            value={getExportOptions(file).exportMimeType ?? ''}
+                            onChange={(exportMimeType) =>
+                              setExportOverrides((prev) => ({ ...prev, [file.id]: exportMimeType }))
+                            }
+                            disabled={isIngesting}
+                            className="w-[140px]"
+                          />
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => downloadFile(file)}
+                        >
+                          <DownloadIcon className="h-4 w-4" />
+                        </Button>
+                        {isIngesting ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Cancel ingestion"
+                            onClick={() => ingestionQueue.cancel(file.id)}
+                          >
+                            <XIcon className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => sendFileToIngestion(file)}
+                          >
+                            <SendIcon className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {isIngesting && (
+                      <div className="mt-2 space-y-1">
+                        <div className="h-1.5 w-full rounded-full bg-border overflow-hidden">
+                          <div
+                            className="h-full bg-primary transition-[width]"
+                            style={{ width: `${ingestion.progress}%` }}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {ingestion.status === 'queued'
+                            ? 'Waiting in queue...'
+                            : ingestion.status === 'downloading'
+                              ? `Downloading from ${adapter.name}...`
+                              : `Uploading... ${ingestion.progress}%`}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {usesBrowser && (
+          <FileBrowserDialog
+            adapter={adapter}
+            sharedDrives={listsSharedDrives ? sharedDrives.data : undefined}
+            open={isBrowserOpen}
+            onOpenChange={setIsBrowserOpen}
+            onSelect={selectFiles}
+            allowedTypes={getAllowedMimeTypes(pickerSettings)}
+            allowMultiSelect={pickerSettings.allowMultiSelect}
+            allowFolderSelect={toFilePickerOptions(pickerSettings).allowFolderSelect ?? false}
+          />
+        )}
+
+        <IngestionQueuePanel
+          items={ingestionQueue.items}
+          onCancel={ingestionQueue.cancel}
+          onRetryFailed={ingestionQueue.retryFailed}
+          onClearFinished={ingestionQueue.clearFinished}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import { RotateCcwIcon, XIcon } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { IngestionItem, IngestionStatus } from '@/lib/ingestion-queue';
+
+type Props = {
+  items: IngestionItem[];
+  onCancel: (id: string) => void;
+  onRetryFailed: () => void;
+  onClearFinished: () => void;
+};
+
+export function IngestionQueuePanel(props: Props) {
+  if (props.items.length === 0) {
+    return null;
+  }
+
+  const count = (status: IngestionStatus) =>
+    props.items.filter((item) => item.status === status).length;
+  const failedCount = count('failed');
+  const finishedCount = count('ingested') + failedCount;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm">
+          Ingestion queue{' '}
+          <span className="text-xs font-normal text-muted-foreground">
+            {count('ingested')}/{props.items.length} ingested
+          </span>
+        </h4>
+        <div className="flex gap-2">
+          {failedCount > 0 && (
+            <Button size="sm" variant="outline" onClick={props.onRetryFailed}>
+              <RotateCcwIcon className="h-4 w-4" />
+              Retry failed ({failedCount})
+            </Button>
+          )}
+          {finishedCount > 0 && (
+            <Button size="sm" variant="ghost" onClick={props.onClearFinished}>
+              Clear finished
+            </Button>
+          )}
+        </div>
+      </div>
+      <ul className="space-y-1">
+        {props.items.map((item) => (
+          <li
+            key={item.id}
+            className="flex items-center gap-3 p-2 border rounded-md text-sm"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="truncate">{item.name}</p>
+              {item.status === 'uploading' && (
+                <div className="mt-1 h-1 w-full rounded-full bg-border overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-[width]"
+                    style={{ width: `${item.progress}%` }}
+                  />
+                </div>
+              )}
+              {item.error && (
+                <p className="text-xs text-destructive truncate">{item.error}</p>
+              )}
+            </div>
+            <Badge variant="outline" className={statusClassName[item.status]}>
+              {statusLabel(item)}
+            </Badge>
+            {(item.status === 'queued' ||
+              item.status === 'downloading' ||
+              item.status === 'uploading') && (
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Cancel"
+                onClick={() => props.onCancel(item.id)}
+              >
+                <XIcon className="h-4 w-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+const statusClassName: Record<IngestionStatus, string> = {
+  queued: 'text-muted-foreground',
+  downloading: 'text-blue-600',
+  uploading: 'text-blue-600',
+  ingested: 'text-green-600',
+  failed: 'text-destructive',
+};
+
+function statusLabel(item: IngestionItem) {
+  switch (item.status) {
+    case 'queued':
+      return item.attempts > 0 ? 'Queued (retry)' : 'Queued';
+    case 'downloading':
+      return 'Downloading';
+    case 'uploading':
+      return `Uploading ${item.progress}%`;
+    case 'ingested':
+      return 'Ingested';
+    case 'failed':
+      return 'Failed';
+  }
+}
@@ -5,25 +5,28 @@ import {
   SDK_EVENT,
   paragon,
 } from '@useparagon/connect';
+import { RefreshCwIcon } from 'lucide-react';
 
+import { Button } from '@/components/ui/button';
 import { IntegrationCard } from './integration-card';
 import { GoogleDriveFilePicker } from './google-drive-file-picker';
+import { FilePicker } from './file-picker';
+import { SyncActions, SyncActionHandlers } from '../sync-actions';
+import { IngestedArtifacts } from '../ingested-artifacts';
+import { RecentChanges } from '../recent-changes';
+import { SyncBatchSummaryDisplay } from '../sync-batch-summary';
 import { getAppConfig } from '@/lib/config';
-import { ParagonService } from '@/lib/paragon-service';
+import { describeSyncError } from '@/lib/paragon-service';
+import { getTokenManager } from '@/lib/token-manager';
+import {
+  FOLDER_MIME_TYPE,
+  FileStorageIntegration,
+  SelectedFile,
+  isFileStorageIntegration,
+} from '@/lib/file-storage';
 import { useEffect, useState } from 'react';
 import type { SyncStatus } from '@/lib/hooks';
 
-interface SelectedFile {
-  id: string;
-  name: string;
-  mimeType: string;
-  size?: number;
-  thumbnailUrl?: string;
-  isShared?: boolean;
-  type?: string;
-  url?: string;
-}
-
 export function IntegrationList() {
   const { data: user, refetch: refetchUser } = useAuthenticatedUser();
   const {
@@ -33,7 +36,23 @@ export function IntegrationList() {
   } = useIntegrationMetadata();
   
   const { userId, workspaceId } = useUserContext();
-  const { syncs, configureSync, isConfiguring, configureError } = useParagonSync();
+  const {
+    syncs,
+    configureSyncs,
+    syncBatchSummary,
+    resetSyncBatch,
+    isConfiguring,
+    configureError,
+    pauseSync,
+    resumeSync,
+    resync,
+    deleteSync,
+    isUpdatingSync,
+    refreshSyncStatus,
+    isRefreshingStatus,
+    isStreamConnected,
+    syncActionError,
+  } = useParagonSync();
   
   const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
 
@@ -62,13 +81,39 @@ export function IntegrationList() {
   const sortedIntegrations = integrations.sort(byEnabledOnTop(user));
   
   const googleDriveSyncs = (syncs as SyncStatus[]).filter((sync: SyncStatus) => sync.integration === 'googledrive');
+  const fileStorageSyncs = (syncs as SyncStatus[]).filter((sync) => isFileStorageIntegration(sync.integration));
 
+  // Other connected file storage providers get their own picker
+  const otherFileStorageIntegrations = sortedIntegrations
+    .map((integration) => integration.type)
+    .filter(
+      (type): type is FileStorageIntegration =>
+        type !== 'googledrive' &&
+        isFileStorageIntegration(type) &&
+        Boolean(user.integrations[type]?.enabled),
+    );
 
-  const handleFileSelect = async (files: SelectedFile[]) => {
+
+  const handleFileSelect = async (
+    files: SelectedFile[],
+    integration: FileStorageIntegration = 'googledrive',
+  ) => {
     console.log('Files received in IntegrationList:', files);
     setSelectedFiles(files);
-    
-    // Configure sync for Google Drive files
+
+    // Picked documents are only ingested, syncs are configured for the
+    // picked folders. Nothing picked syncs the whole drive, which only
+    // Google Drive supports here.
+    const folders = files.filter(file => file.mimeType === FOLDER_MIME_TYPE);
+    const targets = files.length > 0
+      ? folders.map(folder => ({ id: folder.id, name: folder.name, driveId: folder.driveId }))
+      : integration === 'googledrive'
+        ? [{ id: 'root', name: 'My Drive' }]
+        : [];
+    if (targets.length === 0) {
+      return;
+    }
+
     try {
       const config = getAppConfig();
       if (!config.success) {
@@ -76,25 +121,23 @@ export function IntegrationList() {
         return;
       }
 
-      // Generate a user token for this sync operation
-      const paragonService = new ParagonService(config.data.VITE_API_BASE_URL);
-      const userToken = await paragonService.generateToken(config.data.VITE_PARAGON_USER_ID);
+      // Reuse the current user token, refreshed if it is close to expiry
+      const userToken = await getTokenManager().getToken();
 
       console.log('User context:', { userId, workspaceId });
       console.log('Selected files:', files);
 
-      // Configure sync for the selected folder/files
+      // Configure a sync for each selected folder
       const syncRequest = {
         workspaceId: workspaceId,
         userId: userId || config.data.VITE_PARAGON_USER_ID,
-        integrationId: "googledrive",
-        folderId: files[0]?.id || "root",
+        integrationId: integration,
         webhookUrl: `${config.data.VITE_API_BASE_URL}/api/v1/webhooks/paragon/files`,
         userToken: userToken
       };
-      
+
       console.log('Sync request:', syncRequest);
-      configureSync(syncRequest);
+      configureSyncs({ request: syncRequest, targets });
     } catch (error) {
       console.error('Error configuring sync:', error);
     }
@@ -128,14 +171,50 @@ export function IntegrationList() {
       
       <div className="space-y-4">
         <GoogleDriveFilePicker onFileSelect={handleFileSelect} />
+
+        {otherFileStorageIntegrations.map((integration) => (
+          <FilePicker
+            key={integration}
+            integration={integration}
+            onFileSelect={handleFileSelect}
+          />
+        ))}
+
+        <IngestedArtifacts />
         
-        <SyncStatusDisplay syncs={googleDriveSyncs} />
+        <SyncStatusDisplay
+          syncs={fileStorageSyncs}
+          actions={{
+            onPause: pauseSync,
+            onResume: resumeSync,
+            onResync: resync,
+            onDelete: deleteSync,
+          }}
+          isUpdatingSync={isUpdatingSync}
+          onRefresh={() => refreshSyncStatus()}
+          isRefreshing={isRefreshingStatus}
+          isLive={isStreamConnected}
+        />
+
+        <RecentChanges folderIds={googleDriveSyncs.map((sync) => sync.folderId)} />
+        
+        {syncBatchSummary && (
+          <SyncBatchSummaryDisplay summary={syncBatchSummary} onDismiss={resetSyncBatch} />
+        )}
         
         {/* Show configuration error */}
-        {configureError && (
+        {configureError instanceof Error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">
+              Error configuring sync: {describeSyncError(configureError)}
+            </p>
+          </div>
+        )}
+        
+        {syncActionError instanceof Error && (
           <div className="p-3 bg-red-50 border border-red-200 rounded-md">
             <p className="text-sm text-red-800">
-              Error configuring sync: {configureError instanceof Error ? configureError.message : 'Unknown error'}
+              Error updating sync: {describeSyncError(syncActionError)}
             </p>
           </div>
         )}
@@ -153,7 +232,21 @@ export function IntegrationList() {
   );
 }
 
-function SyncStatusDisplay({ syncs }: { syncs: SyncStatus[] }) {
+function SyncStatusDisplay({
+  syncs,
+  actions,
+  isUpdatingSync,
+  onRefresh,
+  isRefreshing,
+  isLive,
+}: {
+  syncs: SyncStatus[];
+  actions: SyncActionHandlers;
+  isUpdatingSync: (syncId: string) => boolean;
+  onRefresh: () => void;
+  isRefreshing: boolean;
+  isLive: boolean;
+}) {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'ACTIVE': return 'bg-green-500 animate-pulse';
@@ -186,11 +279,25 @@ function SyncStatusDisplay({ syncs }: { syncs: SyncStatus[] }) {
           hasActiveSync ? 'text-green-900' :
           'text-blue-900'
         }`}>
-          Google Drive Sync Status
+          File Storage Sync Status
           <span className="ml-2 text-xs font-normal">
-            (Updates every 30 seconds)
+            {isLive
+              ? '(Live updates)'
+              : '(Updates automatically while this tab is visible)'}
           </span>
         </h3>
+        {syncs.length > 0 && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="ml-auto"
+            disabled={isRefreshing}
+            onClick={onRefresh}
+          >
+            <RefreshCwIcon className={isRefreshing ? 'animate-spin' : ''} />
+            Refresh now
+          </Button>
+        )}
       </div>
       <div className={`mt-2 text-xs ${
         hasErrorSync ? 'text-red-700' :
@@ -229,12 +336,24 @@ function SyncStatusDisplay({ syncs }: { syncs: SyncStatus[] }) {
                 }`}>
                   {sync.status}
                 </span>
+                <div className="ml-auto">
+                  <SyncActions
+                    sync={sync}
+                    disabled={isUpdatingSync(sync.syncId)}
+                    {...actions}
+                  />
+                </div>
               </div>
               {sync.message && (
                 <div className="mt-1 text-xs text-gray-600 pl-4">
                   {sync.message}
                 </div>
               )}
+              {sync.statusError && (
+                <div className="mt-1 text-xs text-red-600 pl-4">
+                  Couldn't refresh status: {sync.statusError}
+                </div>
+              )}
             </div>
           ))}
         </div>
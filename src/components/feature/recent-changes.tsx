@@ -0,0 +1,84 @@
+import { ReactNode } from 'react';
+import { FilePenIcon, FilePlusIcon, FileXIcon, HistoryIcon, RefreshCwIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DriveChangeKind, useDriveChanges } from '@/lib/hooks';
+
+type Props = {
+  // Synced folders to show changes for
+  folderIds: string[];
+};
+
+export function RecentChanges({ folderIds }: Props) {
+  const { entries, isTracking, isChecking, error, checkNow, resetChanges } =
+    useDriveChanges(folderIds);
+
+  if (folderIds.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <HistoryIcon className="h-5 w-5" />
+            Recent changes
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={isChecking} onClick={() => checkNow()}>
+              <RefreshCwIcon className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
+              Check now
+            </Button>
+            {entries.length > 0 && (
+              <Button size="sm" variant="ghost" onClick={resetChanges}>
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+        <CardDescription>
+          Files added, modified or removed in synced Google Drive folders
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error instanceof Error && (
+          <p className="text-sm text-destructive mb-2">{error.message}</p>
+        )}
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isTracking ? 'No changes yet.' : 'Starting to track changes...'}
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {entries.map((entry) => (
+              <li
+                key={`${entry.fileId}-${entry.time}`}
+                className="flex items-center gap-3 p-2 border rounded-md text-sm"
+              >
+                {kindIcon[entry.kind]}
+                <span className="min-w-0 flex-1 truncate">{entry.name}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {kindLabel[entry.kind]} · {new Date(entry.time).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const kindIcon: Record<DriveChangeKind, ReactNode> = {
+  added: <FilePlusIcon className="h-4 w-4 text-green-600" />,
+  modified: <FilePenIcon className="h-4 w-4 text-blue-600" />,
+  removed: <FileXIcon className="h-4 w-4 text-destructive" />,
+};
+
+const kindLabel: Record<DriveChangeKind, string> = {
+  added: 'Added',
+  modified: 'Modified',
+  removed: 'Removed',
+};
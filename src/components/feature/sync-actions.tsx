@@ -0,0 +1,75 @@
+import { PauseIcon, PlayIcon, RefreshCwIcon, Trash2Icon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { SyncStatus } from '@/lib/hooks';
+
+export interface SyncActionHandlers {
+  onPause: (syncId: string) => void;
+  onResume: (syncId: string) => void;
+  onResync: (syncId: string) => void;
+  onDelete: (syncId: string) => void;
+}
+
+type Props = SyncActionHandlers & {
+  sync: SyncStatus;
+  disabled?: boolean;
+};
+
+export function SyncActions({
+  sync,
+  disabled,
+  onPause,
+  onResume,
+  onResync,
+  onDelete,
+}: Props) {
+  const isPaused = sync.status === 'DISABLED';
+
+  return (
+    <div className="flex items-center gap-1">
+      {isPaused ? (
+        <Button
+          size="sm"
+          variant="ghost"
+          title="Resume sync"
+          disabled={disabled}
+          onClick={() => onResume(sync.syncId)}
+        >
+          <PlayIcon className="h-3.5 w-3.5" />
+        </Button>
+      ) : (
+        <Button
+          size="sm"
+          variant="ghost"
+          title="Pause sync"
+          disabled={disabled}
+          onClick={() => onPause(sync.syncId)}
+        >
+          <PauseIcon className="h-3.5 w-3.5" />
+        </Button>
+      )}
+      <Button
+        size="sm"
+        variant="ghost"
+        title="Force re-sync"
+        disabled={disabled || isPaused}
+        onClick={() => onResync(sync.syncId)}
+      >
+        <RefreshCwIcon className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        title="Delete sync"
+        disabled={disabled}
+        onClick={() => {
+          if (window.confirm(`Delete sync for folder ${sync.folderId}?`)) {
+            onDelete(sync.syncId);
+          }
+        }}
+      >
+        <Trash2Icon className="h-3.5 w-3.5 text-destructive" />
+      </Button>
+    </div>
+  );
+}
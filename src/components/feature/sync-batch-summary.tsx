@@ -0,0 +1,55 @@
+import { Button } from '@/components/ui/button';
+import type { SyncBatchSummary } from '@/lib/hooks';
+import { describeSyncError } from '@/lib/paragon-service';
+
+export function SyncBatchSummaryDisplay({
+  summary,
+  onDismiss,
+}: {
+  summary: SyncBatchSummary;
+  onDismiss: () => void;
+}) {
+  const hasFailures = summary.failed.length > 0;
+
+  return (
+    <div
+      className={`p-3 border rounded-md space-y-2 ${
+        hasFailures ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <p className={`text-sm font-medium ${hasFailures ? 'text-red-800' : 'text-green-800'}`}>
+          {summary.created.length} created · {summary.reused.length} already synced ·{' '}
+          {summary.failed.length} failed
+        </p>
+        <Button size="sm" variant="ghost" onClick={onDismiss}>
+          Dismiss
+        </Button>
+      </div>
+      <ul className="space-y-1 text-xs">
+        {summary.created.map((target) => (
+          <li key={target.id} className="text-green-800">
+            Created sync for {target.name} ({target.syncId})
+          </li>
+        ))}
+        {summary.reused.map((target) => (
+          <li key={target.id} className="text-muted-foreground">
+            {target.name} is already covered by sync {target.syncId}
+          </li>
+        ))}
+        {summary.failed.map((target) => (
+          <li key={target.id} className="text-red-800">
+            Failed to sync {target.name}:{' '}
+            {target.error instanceof Error ? describeSyncError(target.error) : 'Unknown error'}
+          </li>
+        ))}
+      </ul>
+      {summary.created.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Google Drive folders inside an existing sync count as already synced. Other
+          providers are only matched by the exact folder.
+        </p>
+      )}
+    </div>
+  );
+}
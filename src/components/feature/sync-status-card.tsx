@@ -1,13 +1,16 @@
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
 import { SyncStatus } from '@/lib/hooks';
+import { SyncActions, SyncActionHandlers } from './sync-actions';
 import { CheckCircle, AlertCircle, Clock, Pause, XCircle } from 'lucide-react';
 
 interface SyncStatusCardProps {
   syncStatus: SyncStatus;
+  actions?: SyncActionHandlers;
+  isUpdating?: boolean;
 }
 
-export function SyncStatusCard({ syncStatus }: SyncStatusCardProps) {
+export function SyncStatusCard({ syncStatus, actions, isUpdating }: SyncStatusCardProps) {
   const getStatusIcon = (status: SyncStatus['status']) => {
     switch (status) {
       case 'INITIALIZING':
@@ -68,9 +71,14 @@ export function SyncStatusCard({ syncStatus }: SyncStatusCardProps) {
           </div>
         </div>
         
-        <Badge className={getStatusColor(syncStatus.status)}>
-          {getStatusText(syncStatus.status)}
-        </Badge>
+        <div className="flex items-center gap-2">
+          <Badge className={getStatusColor(syncStatus.status)}>
+            {getStatusText(syncStatus.status)}
+          </Badge>
+          {actions && (
+            <SyncActions sync={syncStatus} disabled={isUpdating} {...actions} />
+          )}
+        </div>
       </div>
       
       {syncStatus.message && (
@@ -78,6 +86,13 @@ export function SyncStatusCard({ syncStatus }: SyncStatusCardProps) {
           <p className="text-xs text-gray-600">{syncStatus.message}</p>
         </div>
       )}
+
+      {syncStatus.statusError && (
+        <p className="mt-2 flex items-center gap-1 text-xs text-red-600">
+          <AlertCircle className="h-3 w-3" />
+          Couldn't refresh status: {syncStatus.statusError}
+        </p>
+      )}
       
       <div className="mt-2 text-xs text-gray-500">
         Sync ID: {syncStatus.syncId}
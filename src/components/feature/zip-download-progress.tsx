@@ -0,0 +1,63 @@
+import { Button } from '@/components/ui/button';
+import type { ZipDownloadProgress } from '@/lib/drive-zip';
+import { MEMORY_ZIP_SIZE_LIMIT } from '@/lib/zip';
+
+type Props = {
+  progress: ZipDownloadProgress | null;
+  isZipping: boolean;
+  error: string | null;
+  onCancel: () => void;
+  onDismiss: () => void;
+};
+
+export function ZipDownloadProgressDisplay({ progress, isZipping, error, onCancel, onDismiss }: Props) {
+  if (!progress && !error) {
+    return null;
+  }
+
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="p-3 border rounded-md space-y-2 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <p className="font-medium">
+          {progress?.isCollecting
+            ? `Finding files... ${progress.total} found`
+            : progress
+              ? `${isZipping ? 'Building ZIP' : 'ZIP ready'}: ${progress.done} of ${progress.total} files`
+              : 'ZIP download failed'}
+        </p>
+        {isZipping ? (
+          <Button size="sm" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        ) : (
+          <Button size="sm" variant="ghost" onClick={onDismiss}>
+            Dismiss
+          </Button>
+        )}
+      </div>
+      {progress && !progress.isCollecting && (
+        <div className="h-1.5 w-full rounded-full bg-border overflow-hidden">
+          <div className="h-full bg-primary transition-[width]" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+      {progress?.inMemory && (
+        <p className="text-xs text-muted-foreground">
+          This browser can't save straight to disk, so the ZIP is built in memory and limited to{' '}
+          {Math.round(MEMORY_ZIP_SIZE_LIMIT / 1024 / 1024)} MB.
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {progress && progress.failed.length > 0 && (
+        <ul className="space-y-1 text-xs text-destructive">
+          {progress.failed.map((failure) => (
+            <li key={failure.name} className="truncate">
+              Skipped {failure.name}: {failure.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
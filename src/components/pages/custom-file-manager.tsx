@@ -1,11 +1,40 @@
-import { useState } from 'react';
-import { paragon } from '@useparagon/connect';
+import { UIEvent, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { FolderIcon, FileIcon, DownloadIcon, AlertCircleIcon, ListIcon, EyeIcon, EyeOffIcon, RefreshCwIcon } from 'lucide-react';
+import { FolderIcon, FileIcon, DownloadIcon, AlertCircleIcon, ListIcon, EyeIcon, EyeOffIcon, RefreshCwIcon, ChevronRightIcon, Loader2Icon, SendIcon, SearchIcon, HardDriveIcon, FileArchiveIcon, InfoIcon } from 'lucide-react';
 import { FileManager } from '@cubone/react-file-manager';
-import { ParagonService } from '@/lib/paragon-service';
+import { describeSyncError } from '@/lib/paragon-service';
 import { getAppConfig } from '@/lib/config';
+import { getTokenManager } from '@/lib/token-manager';
+import { DriveSearchFilters, GOOGLE_DRIVE_INTEGRATION, GOOGLE_FOLDER_MIME_TYPE, getDownloadName, googleDrive, isFolder, isWorkspaceFile, saveBlob } from '@/lib/google-drive-client';
+import {
+  PENDING_FILE_ID_PREFIX,
+  useDriveFileMutations,
+  useDriveFolder,
+  useDriveSearch,
+  useDriveUploads,
+  useSharedDrives,
+  useExportFormatDefaults,
+  useParagonSync,
+  useUserContext,
+} from '@/lib/hooks';
+import { useDriveIngestion } from '@/lib/drive-ingestion';
+import { useZipDownload } from '@/lib/drive-zip';
+import { DriveSearchBar } from '@/components/feature/drive-search-bar';
+import { DriveUploadPanel } from '@/components/feature/drive-upload-panel';
+import { IngestionQueuePanel } from '@/components/feature/integration/ingestion-queue-panel';
+import { DrivePreviewDrawer, PreviewParentFolder } from '@/components/feature/drive-preview-drawer';
+import { DriveDetailsDrawer } from '@/components/feature/drive-details-drawer';
+import { SyncBatchSummaryDisplay } from '@/components/feature/sync-batch-summary';
+import { ZipDownloadProgressDisplay } from '@/components/feature/zip-download-progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import '@cubone/react-file-manager/dist/style.css';
 
 interface SelectedFile {
@@ -14,21 +43,8 @@ interface SelectedFile {
   mimeType: string;
   size?: number;
   thumbnailUrl?: string;
-}
-
-interface GoogleDriveFile {
-  id: string;
-  name: string;
-  mimeType: string;
-  size?: string;
-  parents?: string[];
-  createdTime?: string;
-  modifiedTime?: string;
-  thumbnailLink?: string;
-}
-
-interface GoogleDriveResponse {
-  files: GoogleDriveFile[];
+  // Shared drive containing the file
+  driveId?: string;
 }
 
 interface FileManagerItem {
@@ -40,155 +56,288 @@ interface FileManagerItem {
   googleDriveId?: string;
 }
 
+interface FolderCrumb {
+  id: string;
+  name: string;
+}
+
+const ROOT_FOLDER: FolderCrumb = { id: 'root', name: 'My Drive' };
+// Drive switcher value for My Drive, Radix selects can't use an empty value
+const MY_DRIVE = 'my-drive';
+
+// Start loading the next page this close to the bottom of the list
+const LOAD_MORE_THRESHOLD_PX = 200;
+
 export function GoogleDriveManager() {
   const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
-  const [isFetchingFiles, setIsFetchingFiles] = useState(false);
+  // File shown in the preview drawer
+  const [previewFile, setPreviewFile] = useState<SelectedFile | null>(null);
+  // File shown in the details drawer
+  const [detailsFile, setDetailsFile] = useState<SelectedFile | null>(null);
+  const { resolveExportMimeType } = useExportFormatDefaults();
+  const queryClient = useQueryClient();
   const [error, setError] = useState<string | null>(null);
-  const [fileManagerItems, setFileManagerItems] = useState<FileManagerItem[]>([]);
   const [showFileManager, setShowFileManager] = useState(false);
-  const [originalGoogleDriveFiles, setOriginalGoogleDriveFiles] = useState<GoogleDriveFile[]>([]);
-  const [syncStatus, setSyncStatus] = useState<string | null>(null);
-  const [isConfiguringSync, setIsConfiguringSync] = useState(false);
-
-  const buildFilePath = (file: GoogleDriveFile, allFiles: GoogleDriveFile[]): string => {
-    // Función recursiva para construir el path completo
-    const buildPath = (currentFile: GoogleDriveFile, visited: Set<string> = new Set()): string => {
-      // Evitar loops infinitos
-      if (visited.has(currentFile.id)) {
-        return currentFile.name;
-      }
-      visited.add(currentFile.id);
-      
-      // Si no tiene padres o el padre es 'root', está en la raíz
-      if (!currentFile.parents || currentFile.parents.length === 0 || currentFile.parents.includes('root')) {
-        return `/${currentFile.name}`;
-      }
-      
-      // Buscar el archivo padre
-      const parentId = currentFile.parents[0];
-      const parentFile = allFiles.find(f => f.id === parentId);
-      
-      if (parentFile) {
-        const parentPath = buildPath(parentFile, visited);
-        return `${parentPath}/${currentFile.name}`;
-      }
-      
-      // Si no encontramos el padre, asumir que está en la raíz
-      return `/${currentFile.name}`;
-    };
-    
-    return buildPath(file);
+  // Shared drive being browsed, null for My Drive
+  const [driveId, setDriveId] = useState<string | null>(null);
+  // Folders from the drive root down to the one being browsed
+  const [breadcrumb, setBreadcrumb] = useState<FolderCrumb[]>([ROOT_FOLDER]);
+  // Bumped to remount the file manager when navigation happens outside it
+  const [navigationKey, setNavigationKey] = useState(0);
+  // Search results replace the folder listing while a search is active
+  const [searchFilters, setSearchFilters] = useState<DriveSearchFilters | null>(null);
+  const ingestionQueue = useDriveIngestion();
+  const { renameFile, trashFile, createFolder } = useDriveFileMutations();
+  const driveUploads = useDriveUploads();
+  const zipDownload = useZipDownload();
+  const sharedDrives = useSharedDrives({ enabled: showFileManager });
+  const { userId, workspaceId } = useUserContext();
+  const {
+    configureSyncs,
+    syncBatchSummary,
+    resetSyncBatch,
+    isConfiguring: isConfiguringSync,
+    configureError,
+  } = useParagonSync();
+
+  const currentFolder = breadcrumb[breadcrumb.length - 1];
+
+  const folderQuery = useDriveFolder(currentFolder.id, {
+    enabled: showFileManager && searchFilters === null,
+    driveId: driveId ?? undefined,
+  });
+  const searchQuery = useDriveSearch(searchFilters, driveId ?? undefined);
+  const activeQuery = searchFilters ? searchQuery : folderQuery;
+
+  // Files being shown with their file manager paths. The file manager only
+  // ever shows the current folder at its root, the breadcrumb above it handles
+  // everything higher up. Drive allows duplicate names, so clashing paths get
+  // the file ID appended.
+  const visibleEntries = useMemo(() => {
+    const usedPaths = new Set<string>();
+    const files = activeQuery.data?.pages.flatMap((page) => page.files) ?? [];
+    return files.map((file) => {
+      let path = `/${file.name}`;
+      if (usedPaths.has(path)) path = `${path} (${file.id})`;
+      usedPaths.add(path);
+      return { file, path };
+    });
+  }, [activeQuery.data]);
+
+  const fileManagerItems = useMemo<FileManagerItem[]>(
+    () =>
+      visibleEntries.map(({ file, path }) => ({
+        name: file.name,
+        isDirectory: isFolder(file.mimeType),
+        path,
+        updatedAt: file.modifiedTime,
+        size: file.size ? parseInt(file.size) : undefined,
+        googleDriveId: file.id,
+      })),
+    [visibleEntries],
+  );
+
+  const findCurrentFile = (googleDriveId?: string) =>
+    visibleEntries.find(({ file }) => file.id === googleDriveId)?.file;
+
+  const openPreview = (item: FileManagerItem) => {
+    const originalFile = findCurrentFile(item.googleDriveId);
+    if (!originalFile || isFolder(originalFile.mimeType)) return;
+    setPreviewFile({
+      id: originalFile.id,
+      name: originalFile.name,
+      mimeType: originalFile.mimeType,
+      size: item.size,
+      thumbnailUrl: originalFile.thumbnailLink,
+      driveId: originalFile.driveId,
+    });
+  };
+
+  // Syncs work on folders, so a previewed file offers to sync the folder it is in
+  const getParentFolder = (file: SelectedFile): PreviewParentFolder | null => {
+    const originalFile = findCurrentFile(file.id);
+    if (!originalFile) return null;
+    if (!searchFilters) {
+      return { id: currentFolder.id, name: currentFolder.name, driveId: driveId ?? undefined };
+    }
+
+    // Search results can come from anywhere, only the parent's ID is known
+    const parentId = originalFile.parents?.[0];
+    return parentId
+      ? { id: parentId, name: `Parent of ${originalFile.name}`, driveId: originalFile.driveId }
+      : null;
   };
 
-  const transformToFileManagerFormat = (files: GoogleDriveFile[]): FileManagerItem[] => {
-    return files.map((file) => ({
-      name: file.name,
-      isDirectory: file.mimeType === 'application/vnd.google-apps.folder',
-      path: buildFilePath(file, files), // Construir path jerárquico
-      updatedAt: file.modifiedTime,
-      size: file.size ? parseInt(file.size) : undefined,
-      googleDriveId: file.id, // Guardar el ID original de Google Drive
-    }));
+  const navigateTo = (crumbs: FolderCrumb[]) => {
+    setBreadcrumb(crumbs);
+    setSelectedFiles([]);
   };
 
-  const fetchGoogleDriveFiles = async () => {
+  // Breadcrumb clicks happen outside the file manager, remount it at the new path
+  const openCrumb = (index: number) => {
+    navigateTo(breadcrumb.slice(0, index + 1));
+    setNavigationKey((key) => key + 1);
+  };
+
+  // Opening a folder loads it from Drive and remounts the file manager on it
+  const openFolder = (item: FileManagerItem) => {
+    const child = findCurrentFile(item.googleDriveId);
+    if (!child || !isFolder(child.mimeType)) {
+      console.warn('Unknown folder, returning to the drive root:', item.path);
+      openCrumb(0);
+      return;
+    }
+
+    if (searchFilters) {
+      // A folder found by search is opened on its own, its ancestors are not known
+      setSearchFilters(null);
+      navigateTo([breadcrumb[0], { id: child.id, name: child.name }]);
+    } else {
+      navigateTo([...breadcrumb, { id: child.id, name: child.name }]);
+    }
+    setNavigationKey((key) => key + 1);
+  };
+
+  const loadMoreOnScroll = (event: UIEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    const nearBottom =
+      target.scrollHeight - target.scrollTop - target.clientHeight < LOAD_MORE_THRESHOLD_PX;
+    if (nearBottom && activeQuery.hasNextPage && !activeQuery.isFetchingNextPage) {
+      activeQuery.fetchNextPage();
+    }
+  };
+
+  // A shared drive's ID doubles as the ID of its root folder
+  const switchDrive = (nextDriveId: string | null) => {
+    const drive = sharedDrives.data?.find((shared) => shared.id === nextDriveId);
+    setDriveId(drive ? drive.id : null);
+    navigateTo([drive ? { id: drive.id, name: drive.name } : ROOT_FOLDER]);
+    setNavigationKey((key) => key + 1);
+  };
+
+  const search = (filters: DriveSearchFilters | null) => {
+    setSearchFilters(filters);
+    setSelectedFiles([]);
+    setShowFileManager(true);
+    setNavigationKey((key) => key + 1);
+  };
+
+  const refreshCurrentFolder = () => {
+    setError(null);
+    queryClient.invalidateQueries({
+      queryKey: searchFilters ? ['driveSearch', searchFilters] : ['driveFolder', currentFolder.id],
+    });
+  };
+
+  const folderError = activeQuery.error instanceof Error ? activeQuery.error.message : null;
+
+  // Placeholders for folders that are still being created can't be changed yet
+  const getEditableId = (item: FileManagerItem) =>
+    item.googleDriveId && !item.googleDriveId.startsWith(PENDING_FILE_ID_PREFIX)
+      ? item.googleDriveId
+      : null;
+
+  // Drive folder ID for a folder in the file manager, null being the folder
+  // it shows at its root (the drive root while searching)
+  const resolveFolderId = (folder: FileManagerItem | null) => {
+    if (!folder) return searchFilters ? breadcrumb[0].id : currentFolder.id;
+    return folder.isDirectory ? getEditableId(folder) : null;
+  };
+
+  const handleRename = async (item: FileManagerItem, newName: string) => {
+    const fileId = getEditableId(item);
+    const name = newName.trim();
+    if (!fileId || !name || name === item.name) return;
+
     try {
-      setIsFetchingFiles(true);
       setError(null);
+      await renameFile({ fileId, name });
+    } catch (err) {
+      console.error('Error renaming file:', err);
+      setError(`Failed to rename ${item.name}${err instanceof Error ? `: ${err.message}` : ''}`);
+    }
+  };
+
+  // Trashes every item that was deleted at once, reporting the ones that failed
+  const handleDelete = async (items: FileManagerItem[]) => {
+    const targets = items.filter((item) => getEditableId(item) !== null);
+    if (targets.length === 0) return;
 
-      console.log('🔍 Fetching Google Drive files and folders...');
+    setError(null);
+    const fileIds = targets.map((item) => getEditableId(item)!);
+    setSelectedFiles((prev) => prev.filter((file) => !fileIds.includes(file.id)));
+    const results = await Promise.allSettled(fileIds.map((fileId) => trashFile(fileId)));
 
-      // Fetch files from Google Drive API
-      // Get ALL files and folders (not just from root)
-      const response = await paragon.request('googledrive', '/files?q=trashed=false&pageSize=1000&fields=files(id,name,mimeType,size,parents,createdTime,modifiedTime,thumbnailLink)', {
-        method: 'GET',
-        body: undefined,
-        headers: undefined
+    const failed = targets.filter((_, index) => results[index].status === 'rejected');
+    if (failed.length > 0) {
+      results.forEach((result) => {
+        if (result.status === 'rejected') console.error('Error deleting file:', result.reason);
       });
+      setError(`Failed to delete ${failed.map((item) => item.name).join(', ')}`);
+    }
+  };
 
-      const driveResponse = response as GoogleDriveResponse;
-      console.log('📁 Google Drive Files and Folders Array:', driveResponse);
-      console.log('📊 Total items foundasdadsdas:', driveResponse?.files?.length || 0);
-
-      // Also log each file/folder individually for better readability
-      if (driveResponse?.files) {
-        driveResponse.files.forEach((item: GoogleDriveFile, index: number) => {
-          const isFolder = item.mimeType === 'application/vnd.google-apps.folder';
-          console.log(`${index + 1}. ${isFolder ? '📁' : '📄'} ${item.name} (${item.mimeType})`);
-        });
-
-        // Store original Google Drive files for reference
-        setOriginalGoogleDriveFiles(driveResponse.files);
-        
-        // Transform data for file manager
-        const transformedFiles = transformToFileManagerFormat(driveResponse.files);
-        setFileManagerItems(transformedFiles);
-        setShowFileManager(true);
-        console.log('📋 File Manager Items:', transformedFiles);
-        
-        // Also store original Google Drive data for reference
-        console.log('📊 Original Google Drive Response:', driveResponse.files);
-      }
-
-      return response;
+  const handleFolderCreate = async (name: string, parentFolder: FileManagerItem | null) => {
+    const parentId = resolveFolderId(parentFolder);
+    if (!parentId || !name.trim()) {
+      setError(`Cannot create folder ${name} here`);
+      return;
+    }
 
+    try {
+      setError(null);
+      await createFolder({ name: name.trim(), parentId });
     } catch (err) {
-      console.error('❌ Error fetching Google Drive files:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch files');
-    } finally {
-      setIsFetchingFiles(false);
+      console.error('Error creating folder:', err);
+      setError(`Failed to create folder ${name}${err instanceof Error ? `: ${err.message}` : ''}`);
     }
   };
 
+  const sendFileToIngestion = (file: SelectedFile) => {
+    ingestionQueue.ingestFile(
+      file,
+      isWorkspaceFile(file.mimeType)
+        ? { exportMimeType: resolveExportMimeType(file.mimeType) }
+        : {},
+    );
+  };
+
   const downloadFile = async (file: SelectedFile) => {
     try {
       setError(null);
-      
-      // Check if it's a Google Workspace file or regular file
-      const isGoogleWorkspaceFile = file.mimeType.includes('application/vnd.google-apps');
-      
-      let endpoint: string;
-      if (isGoogleWorkspaceFile) {
-        // For Google Workspace files, use export endpoint
-        // Default to PDF export for most Google Workspace files
-        let exportMimeType = 'application/pdf';
-        if (file.mimeType.includes('spreadsheet')) {
-          exportMimeType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-        } else if (file.mimeType.includes('presentation')) {
-          exportMimeType = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
-        } else if (file.mimeType.includes('document')) {
-          exportMimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-        }
-        
-        endpoint = `/files/${file.id}/export?mimeType=${encodeURIComponent(exportMimeType)}`;
-      } else {
-        // For regular files, use the get endpoint with alt=media
-        endpoint = `/files/${file.id}?alt=media`;
-      }
-
-      const response = await paragon.request('googledrive', endpoint, {
-        method: 'GET',
-        body: undefined,
-        headers: undefined
+      const downloaded = await googleDrive.download(file, {
+        exportMimeType: resolveExportMimeType(file.mimeType),
       });
-
-      // Create download link
-      const blob = new Blob([response as BlobPart], { type: file.mimeType });
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = file.name;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
-
+      saveBlob(downloaded.blob, getDownloadName(downloaded));
     } catch (err) {
       console.error('Error downloading file:', err);
       setError(`Failed to download ${file.name}`);
     }
   };
 
+  // Converts a file manager item using the original Google Drive data
+  const toSelectedFile = (item: FileManagerItem): SelectedFile => {
+    const originalFile = findCurrentFile(item.googleDriveId);
+    return {
+      id: item.googleDriveId || item.path,
+      name: item.name,
+      mimeType: originalFile?.mimeType || (item.isDirectory ? GOOGLE_FOLDER_MIME_TYPE : 'application/octet-stream'),
+      size: item.size,
+      thumbnailUrl: originalFile?.thumbnailLink,
+      driveId: originalFile?.driveId,
+    };
+  };
+
+  // Folders are walked recursively, Workspace files use the workspace export formats
+  const downloadAsZip = (files: SelectedFile[]) => {
+    const onlyFolder = files.length === 1 && isFolder(files[0].mimeType);
+    zipDownload.downloadZip(files, {
+      archiveName: onlyFolder ? files[0].name : currentFolder.name,
+      resolveExportMimeType: (file) =>
+        isWorkspaceFile(file.mimeType) ? resolveExportMimeType(file.mimeType) : undefined,
+    });
+  };
+
   const formatFileSize = (bytes?: number) => {
     if (!bytes) return 'Unknown size';
     
@@ -206,37 +355,42 @@ export function GoogleDriveManager() {
     return <FileIcon className="h-5 w-5 text-gray-500" />;
   };
 
-  const configureFolderSync = async (folderId: string) => {
-    try {
-      setIsConfiguringSync(true);
-      setSyncStatus(null);
-      setError(null);
+  // Syncs go through the shared registry, so they also show on the integrations page
+  const configureFolderSyncs = async (targets: SelectedFile[]) => {
+    setError(null);
+    resetSyncBatch();
+
+    const config = getAppConfig();
+    if (!config.success) {
+      setError('Configuration error');
+      return;
+    }
 
-      const config = getAppConfig();
-      if (!config.success) {
-        throw new Error('Configuration error');
-      }
-
-      const paragonService = new ParagonService(config.data.VITE_API_BASE_URL);
-      const result = await paragonService.configureSync({
-        workspaceId: "uuid-workspace",
-        userId: "user-id",
-        integrationId: "google-drive-integration",
-        folderId: folderId,
-        webhookUrl: `${config.data.VITE_API_BASE_URL}/api/v1/webhooks/paragon/files`
+    try {
+      // Reuse the current user token, refreshed if it is close to expiry
+      const userToken = await getTokenManager().getToken();
+      configureSyncs({
+        request: {
+          workspaceId,
+          userId: userId || config.data.VITE_PARAGON_USER_ID,
+          integrationId: GOOGLE_DRIVE_INTEGRATION,
+          webhookUrl: `${config.data.VITE_API_BASE_URL}/api/v1/webhooks/paragon/files`,
+          userToken,
+        },
+        targets: targets.map((target) => ({
+          id: target.id,
+          name: target.name,
+          driveId: target.driveId,
+        })),
       });
-      
-      setSyncStatus(`Sync configured: ${result.syncId}`);
     } catch (err) {
       console.error('Error configuring sync:', err);
       setError(err instanceof Error ? err.message : 'Failed to configure sync');
-    } finally {
-      setIsConfiguringSync(false);
     }
   };
 
   return (
-    <div className="container mx-auto py-6 px-8">
+    <div>
       <div className="mb-6">
         <h1 className="text-2xl font-bold mb-2">Google Drive File Manager</h1>
         <p className="text-muted-foreground">
@@ -258,16 +412,22 @@ export function GoogleDriveManager() {
           <div className="space-y-2">
             <div className="flex gap-2">
               <Button
-                onClick={fetchGoogleDriveFiles}
-                disabled={isFetchingFiles}
+                onClick={() => (showFileManager ? refreshCurrentFolder() : setShowFileManager(true))}
+                disabled={activeQuery.isFetching}
                 className="flex-1"
               >
                 <ListIcon className="h-4 w-4 mr-2" />
-                {isFetchingFiles ? 'Loading Files...' : 'Load Google Drive Files'}
+                {activeQuery.isFetching
+                  ? 'Loading Files...'
+                  : showFileManager
+                    ? searchFilters ? 'Refresh Results' : 'Refresh Folder'
+                    : 'Load Google Drive Files'}
               </Button>
             </div>
+
+            <DriveSearchBar isSearching={searchQuery.isFetching} onSearch={search} />
             
-            {fileManagerItems.length > 0 && (
+            {activeQuery.data && (
               <Button
                 onClick={() => setShowFileManager(!showFileManager)}
                 variant="secondary"
@@ -288,35 +448,60 @@ export function GoogleDriveManager() {
             )}
           </div>
 
-          {error && (
+          {(error || folderError) && (
             <div className="flex items-center gap-2 p-3 text-sm bg-destructive/10 border border-destructive/20 rounded-md text-destructive">
               <AlertCircleIcon className="h-4 w-4" />
-              {error}
+              {error ?? folderError}
             </div>
           )}
 
-          {syncStatus && (
-            <div className="flex items-center gap-2 p-3 text-sm bg-green-50 border border-green-200 rounded-md text-green-800">
-              <RefreshCwIcon className="h-4 w-4" />
-              {syncStatus}
+          {configureError instanceof Error && (
+            <div className="flex items-center gap-2 p-3 text-sm bg-destructive/10 border border-destructive/20 rounded-md text-destructive">
+              <AlertCircleIcon className="h-4 w-4" />
+              Error configuring sync: {describeSyncError(configureError)}
             </div>
           )}
 
+          {syncBatchSummary && (
+            <SyncBatchSummaryDisplay summary={syncBatchSummary} onDismiss={resetSyncBatch} />
+          )}
+
+          <ZipDownloadProgressDisplay
+            progress={zipDownload.progress}
+            isZipping={zipDownload.isZipping}
+            error={zipDownload.error}
+            onCancel={zipDownload.cancel}
+            onDismiss={zipDownload.reset}
+          />
+
           {selectedFiles.length > 0 && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <h4 className="font-medium text-sm">Selected Files:</h4>
-                {selectedFiles.some(f => f.mimeType.includes('folder')) && (
-                  <Button 
-                    onClick={() => configureFolderSync(selectedFiles.find(f => f.mimeType.includes('folder'))!.id)}
-                    disabled={isConfiguringSync}
-                    size="sm"
-                    variant="outline"
-                  >
-                    <RefreshCwIcon className="h-4 w-4 mr-2" />
-                    {isConfiguringSync ? 'Configuring...' : 'Configure Folder Sync'}
-                  </Button>
-                )}
+                <div className="flex gap-2">
+                  {(selectedFiles.length > 1 || selectedFiles.some(f => isFolder(f.mimeType))) && (
+                    <Button
+                      onClick={() => downloadAsZip(selectedFiles)}
+                      disabled={zipDownload.isZipping}
+                      size="sm"
+                      variant="outline"
+                    >
+                      <FileArchiveIcon className="h-4 w-4 mr-2" />
+                      Download as ZIP
+                    </Button>
+                  )}
+                  {selectedFiles.some(f => f.mimeType.includes('folder')) && (
+                    <Button 
+                      onClick={() => configureFolderSyncs(selectedFiles.filter(f => isFolder(f.mimeType)))}
+                      disabled={isConfiguringSync}
+                      size="sm"
+                      variant="outline"
+                    >
+                      <RefreshCwIcon className="h-4 w-4 mr-2" />
+                      {isConfiguringSync ? 'Configuring...' : 'Configure Folder Sync'}
+                    </Button>
+                  )}
+                </div>
               </div>
               <div className="space-y-2">
                 {selectedFiles.map((file) => (
@@ -333,62 +518,180 @@ export function GoogleDriveManager() {
                         </p>
                       </div>
                     </div>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => downloadFile(file)}
-                      className="ml-2"
-                    >
-                      <DownloadIcon className="h-4 w-4" />
-                    </Button>
+                    <div className="flex gap-2 ml-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Details"
+                        disabled={file.id.startsWith(PENDING_FILE_ID_PREFIX)}
+                        onClick={() => setDetailsFile(file)}
+                      >
+                        <InfoIcon className="h-4 w-4" />
+                      </Button>
+                      {!isFolder(file.mimeType) && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Preview"
+                            onClick={() => setPreviewFile(file)}
+                          >
+                            <EyeIcon className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => downloadFile(file)}
+                          >
+                            <DownloadIcon className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Send to ingestion"
+                            onClick={() => sendFileToIngestion(file)}
+                          >
+                            <SendIcon className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
                 ))}
               </div>
             </div>
           )}
 
-          {showFileManager && fileManagerItems.length > 0 && (
+          <DriveDetailsDrawer file={detailsFile} onClose={() => setDetailsFile(null)} />
+
+          <DrivePreviewDrawer
+            file={previewFile}
+            onClose={() => setPreviewFile(null)}
+            onDownload={downloadFile}
+            onIngest={sendFileToIngestion}
+            parentFolder={previewFile && getParentFolder(previewFile)}
+            onSyncFolder={(folder) =>
+              configureFolderSyncs([{ ...folder, mimeType: GOOGLE_FOLDER_MIME_TYPE }])
+            }
+            isSyncing={isConfiguringSync}
+          />
+
+          <IngestionQueuePanel
+            items={ingestionQueue.items}
+            onCancel={ingestionQueue.cancel}
+            onRetryFailed={ingestionQueue.retryFailed}
+            onClearFinished={ingestionQueue.clearFinished}
+          />
+
+          {showFileManager && (
             <div className="mt-6">
-              <h4 className="font-medium text-sm mb-3">File Manager Interface:</h4>
-              <div className="border rounded-lg overflow-hidden min-h-[500px]">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <h4 className="font-medium text-sm">File Manager Interface:</h4>
+                <Select
+                  value={driveId ?? MY_DRIVE}
+                  onValueChange={(value) => switchDrive(value === MY_DRIVE ? null : value)}
+                >
+                  <SelectTrigger size="sm" className="w-[200px]" title="Drive">
+                    <HardDriveIcon className="h-4 w-4" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={MY_DRIVE}>My Drive</SelectItem>
+                    {sharedDrives.data?.map((drive) => (
+                      <SelectItem key={drive.id} value={drive.id}>
+                        {drive.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {searchFilters ? (
+                <div className="flex items-center justify-between mb-3 text-sm">
+                  <span className="flex items-center gap-2 font-medium">
+                    <SearchIcon className="h-4 w-4" />
+                    Search results ({visibleEntries.length}
+                    {activeQuery.hasNextPage ? '+' : ''})
+                  </span>
+                  <Button size="sm" variant="ghost" onClick={() => search(null)}>
+                    Back to {currentFolder.name}
+                  </Button>
+                </div>
+              ) : (
+                <nav className="flex flex-wrap items-center gap-1 mb-3 text-sm">
+                  {breadcrumb.map((crumb, index) => (
+                    <span key={crumb.id} className="flex items-center gap-1">
+                      {index > 0 && <ChevronRightIcon className="h-4 w-4 text-muted-foreground" />}
+                      {index === breadcrumb.length - 1 ? (
+                        <span className="font-medium">{crumb.name}</span>
+                      ) : (
+                        <button
+                          type="button"
+                          className="text-primary hover:underline"
+                          onClick={() => openCrumb(index)}
+                        >
+                          {crumb.name}
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </nav>
+              )}
+              {!searchFilters && (
+                <div className="mb-3">
+                  <DriveUploadPanel
+                    folderName={currentFolder.name}
+                    uploads={driveUploads.uploads}
+                    onFiles={(files) => driveUploads.uploadFiles(files, currentFolder.id)}
+                    onClearFinished={driveUploads.clearFinished}
+                    disabled={activeQuery.isLoading}
+                  />
+                </div>
+              )}
+              <div
+                className="border rounded-lg overflow-hidden min-h-[500px]"
+                onScrollCapture={loadMoreOnScroll}
+              >
                 <FileManager 
+                  key={navigationKey}
                   files={fileManagerItems}
-                  filePreviewPath="https://drive.google.com/file/d/" // URL base para preview de Google Drive
-                  onFileSelect={(selectedItems: FileManagerItem[]) => {
-                    console.log('File Manager Selection:', selectedItems);
-                    // Convertir a formato SelectedFile usando datos originales de Google Drive
-                    const convertedFiles: SelectedFile[] = selectedItems.map(item => {
-                      // Buscar el archivo original para obtener el tipo MIME correcto
-                      const originalFile = originalGoogleDriveFiles.find(f => f.id === item.googleDriveId);
-                      return {
-                        id: item.googleDriveId || item.path,
-                        name: item.name,
-                        mimeType: originalFile?.mimeType || (item.isDirectory ? 'application/vnd.google-apps.folder' : 'application/octet-stream'),
-                        size: item.size,
-                        thumbnailUrl: originalFile?.thumbnailLink
-                      };
-                    });
-                    setSelectedFiles(convertedFiles);
+                  isLoading={activeQuery.isLoading}
+                  onRename={handleRename}
+                  onDelete={handleDelete}
+                  onCreateFolder={handleFolderCreate}
+                  enableFilePreview={false}
+                  onFileOpen={(item) => (item.isDirectory ? openFolder(item) : openPreview(item))}
+                  onSelect={(selectedItems: FileManagerItem[]) => {
+                    setSelectedFiles(selectedItems.map(toSelectedFile));
                   }}
-                  onFileDownload={async (file: FileManagerItem) => {
-                    console.log('Download requested for:', file);
-                    if (file.googleDriveId && !file.isDirectory) {
-                      // Buscar el archivo original para obtener el tipo MIME correcto
-                      const originalFile = originalGoogleDriveFiles.find(f => f.id === file.googleDriveId);
-                      const tempFile: SelectedFile = {
-                        id: file.googleDriveId,
-                        name: file.name,
-                        mimeType: originalFile?.mimeType || 'application/octet-stream',
-                        size: file.size,
-                        thumbnailUrl: originalFile?.thumbnailLink
-                      };
-                      await downloadFile(tempFile);
+                  onDownload={(items: FileManagerItem[]) => {
+                    const files = items.map(toSelectedFile);
+                    if (files.length === 1 && !isFolder(files[0].mimeType)) {
+                      downloadFile(files[0]);
                     } else {
-                      console.warn('Cannot download folder or file without Google Drive ID');
+                      downloadAsZip(files);
                     }
                   }}
                 />
               </div>
+              {(activeQuery.isFetchingNextPage || activeQuery.hasNextPage) && (
+                <div className="flex justify-center mt-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={activeQuery.isFetchingNextPage}
+                    onClick={() => activeQuery.fetchNextPage()}
+                  >
+                    {activeQuery.isFetchingNextPage ? (
+                      <>
+                        <Loader2Icon className="h-4 w-4 mr-2 animate-spin" />
+                        Loading more...
+                      </>
+                    ) : (
+                      `Load more (${visibleEntries.length} loaded)`
+                    )}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </CardContent>
@@ -10,6 +10,7 @@ import {
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { AlertTriangleIcon } from 'lucide-react';
+import { ParagonServiceError } from '@/lib/paragon-service';
 
 export function ErrorCard(props: {
   error: unknown | null;
@@ -20,6 +21,7 @@ export function ErrorCard(props: {
       ? props.error
       : new Error('Something went wrong while authenticating');
   const zodError = error instanceof ZodError ? error : null;
+  const serviceError = error instanceof ParagonServiceError ? error : null;
 
   return (
     <div className="max-w-md mx-auto pt-4">
@@ -51,6 +53,22 @@ export function ErrorCard(props: {
                   ))}
                 </ul>
               </>
+            ) : serviceError ? (
+              <>
+                <p className="mb-2">{serviceError.detail}</p>
+                <p className="font-mono text-xs">
+                  {serviceError.endpoint}
+                  {serviceError.isNetworkError
+                    ? ' · backend unreachable'
+                    : ` · HTTP ${serviceError.status}`}
+                </p>
+                {!serviceError.retryable && (
+                  <p className="mt-2 text-xs">
+                    Retrying is unlikely to help, check the backend
+                    configuration.
+                  </p>
+                )}
+              </>
             ) : (
               error.message
             )}
@@ -6,13 +6,15 @@ import {
   useRef,
   useCallback,
   type DragEvent,
+  type ReactNode,
+  type Ref,
   useEffect,
 } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { UploadCloud, FileIcon, X, CheckCircle } from 'lucide-react';
 
-type UploadStatus = 'idle' | 'dragging' | 'uploading' | 'success' | 'error';
+type UploadStatus = 'idle' | 'uploading' | 'success' | 'error';
 
 type FileUploadProps = {
   onUploadSuccess?: (file: File) => void;
@@ -78,49 +80,6 @@ export function FileUpload({
     simulateUpload(selectedFile);
   };
 
-  const handleDragOver = useCallback(
-    (e: DragEvent<HTMLDivElement>) => {
-      e.preventDefault();
-      e.stopPropagation();
-      if (status !== 'uploading' && status !== 'success') {
-        setStatus('dragging');
-      }
-    },
-    [status],
-  );
-
-  const handleDragLeave = useCallback(
-    (e: DragEvent<HTMLDivElement>) => {
-      e.preventDefault();
-      e.stopPropagation();
-      if (status === 'dragging') {
-        setStatus('idle');
-      }
-    },
-    [status],
-  );
-
-  const handleDrop = useCallback(
-    (e: DragEvent<HTMLDivElement>) => {
-      e.preventDefault();
-      e.stopPropagation();
-      if (status === 'uploading' || status === 'success') return;
-
-      setStatus('idle');
-      const droppedFile = e.dataTransfer.files?.[0];
-      if (droppedFile) {
-        handleFileSelect(droppedFile);
-      }
-    },
-    [status],
-  );
-
-  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    handleFileSelect(selectedFile || null);
-    if (e.target) e.target.value = '';
-  };
-
   const triggerFileInput = () => {
     if (status === 'uploading' || status === 'success') return;
     fileInputRef.current?.click();
@@ -230,34 +189,16 @@ export function FileUpload({
               </Button>
             </div>
           </div>
-        ) : status === 'idle' || status === 'dragging' ? (
-          <div
-            className={`flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
-              status === 'dragging'
-                ? 'border-primary bg-primary/5'
-                : 'border-muted-foreground/25 hover:border-primary hover:bg-primary/5'
-            }`}
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
-            onDrop={handleDrop}
-            onClick={triggerFileInput}
+        ) : status === 'idle' ? (
+          <FileDropZone
+            id={id}
+            inputRef={fileInputRef}
+            onFiles={(files) => handleFileSelect(files[0] ?? null)}
           >
-            <UploadCloud className="w-12 h-12 mb-4 text-muted-foreground" />
-            <p className="mb-2 text-sm text-muted-foreground">
-              <span className="font-semibold">Click to upload</span> or drag and
-              drop
-            </p>
             <p className="text-xs text-muted-foreground">
               Any file type {maxFileSize && `(Max ${formatBytes(maxFileSize)})`}
             </p>
-            <input
-              id={id}
-              ref={fileInputRef}
-              type="file"
-              className="sr-only"
-              onChange={handleFileInputChange}
-            />
-          </div>
+          </FileDropZone>
         ) : status === 'uploading' && file ? (
           <div className="flex flex-col items-center space-y-4">
             <div className="w-16 h-16 relative">
@@ -330,3 +271,96 @@ export function FileUpload({
     </Card>
   );
 }
+
+type FileDropZoneProps = {
+  id: string;
+  onFiles: (files: File[]) => void;
+  multiple?: boolean;
+  disabled?: boolean;
+  inputRef?: Ref<HTMLInputElement>;
+  // Extra hint shown under "Click to upload or drag and drop"
+  children?: ReactNode;
+};
+
+export function FileDropZone({
+  id,
+  onFiles,
+  multiple = false,
+  disabled = false,
+  inputRef,
+  children,
+}: FileDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const localInputRef = useRef<HTMLInputElement | null>(null);
+
+  const setInputRef = (element: HTMLInputElement | null) => {
+    localInputRef.current = element;
+    if (typeof inputRef === 'function') {
+      inputRef(element);
+    } else if (inputRef) {
+      (inputRef as React.MutableRefObject<HTMLInputElement | null>).current = element;
+    }
+  };
+
+  const selectFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length > 0) {
+      onFiles(multiple ? files : files.slice(0, 1));
+    }
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!disabled) setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    if (!disabled) selectFiles(e.dataTransfer.files);
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    selectFiles(e.target.files);
+    if (e.target) e.target.value = '';
+  };
+
+  return (
+    <div
+      className={`flex flex-col items-center justify-center p-8 border-2 border-dashed rounded-lg transition-colors ${
+        disabled
+          ? 'border-muted-foreground/25 opacity-50 cursor-not-allowed'
+          : isDragging
+            ? 'border-primary bg-primary/5 cursor-pointer'
+            : 'border-muted-foreground/25 hover:border-primary hover:bg-primary/5 cursor-pointer'
+      }`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      onClick={() => !disabled && localInputRef.current?.click()}
+    >
+      <UploadCloud className="w-12 h-12 mb-4 text-muted-foreground" />
+      <p className="mb-2 text-sm text-muted-foreground">
+        <span className="font-semibold">Click to upload</span> or drag and
+        drop
+      </p>
+      {children}
+      <input
+        id={id}
+        ref={setInputRef}
+        type="file"
+        multiple={multiple}
+        className="sr-only"
+        onChange={handleFileInputChange}
+      />
+    </div>
+  );
+}
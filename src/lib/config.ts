@@ -1,13 +1,31 @@
 import { z } from 'zod';
 
+// Boolean env flags, accepting the usual spellings and false when unset
+const envFlag = z
+  .string()
+  .optional()
+  .transform((value) => /^(true|1|yes|on)$/i.test(value?.trim() ?? ''));
+
 export function getAppConfig() {
   return z
     .object({
       VITE_PARAGON_PROJECT_ID: z.string(),
       VITE_API_BASE_URL: z.string().default('http://localhost:8888'),
+      VITE_SYNC_API_BASE_URL: z.string().default('https://sync.useparagon.com'),
       VITE_GOOGLE_API_KEY: z.string().optional(),
       VITE_GOOGLE_APP_ID: z.string().optional(),
       VITE_PARAGON_USER_ID: z.string(),
+      VITE_MOCK_BACKEND: envFlag,
     })
+    .transform((config) =>
+      // The mock backend is served by the Vite dev server itself
+      config.VITE_MOCK_BACKEND
+        ? {
+            ...config,
+            VITE_API_BASE_URL: window.location.origin,
+            VITE_SYNC_API_BASE_URL: window.location.origin,
+          }
+        : config,
+    )
     .safeParse(import.meta.env);
 }
@@ -0,0 +1,86 @@
+import { useCallback } from 'react';
+
+import { getAppConfig } from './config';
+import { FileStorageIntegration, SelectedFile, getFileStorageAdapter } from './file-storage';
+import { getDownloadName } from './google-drive-client';
+import { useIngestedArtifacts, useUserContext } from './hooks';
+import { IngestionTask, useIngestionQueue } from './ingestion-queue';
+import { ParagonService } from './paragon-service';
+
+interface DriveIngestionOptions {
+  // How many files are ingested at the same time
+  concurrency?: number;
+  // File storage provider the files come from
+  integration?: FileStorageIntegration;
+}
+
+// Queues files for ingestion: each file is downloaded (or exported, for
+// Google Workspace files) through Paragon and uploaded to the ingestion service
+export function useDriveIngestion({
+  concurrency = 3,
+  integration = 'googledrive',
+}: DriveIngestionOptions = {}) {
+  const queue = useIngestionQueue({ concurrency });
+  const { trackArtifact } = useIngestedArtifacts();
+  const { userId, workspaceId } = useUserContext();
+
+  const createTask = useCallback(
+    (file: SelectedFile, exportMimeType?: string): IngestionTask =>
+      async ({ signal, setStatus, setProgress }) => {
+        const config = getAppConfig();
+        if (!config.success) {
+          throw new Error('Configuration error: Unable to get app config');
+        }
+
+        const paragonService = new ParagonService(config.data.VITE_API_BASE_URL);
+
+        // First, get the file content from the provider
+        const adapter = getFileStorageAdapter(integration);
+        const downloaded = await adapter.download(file, { exportMimeType });
+
+        // The download cannot be interrupted, so honour a cancel here
+        signal.throwIfAborted();
+        setStatus('uploading');
+
+        const fileToSend = new File([downloaded.blob], getDownloadName(downloaded), {
+          type: downloaded.mimeType,
+        });
+
+        // Send to nos-ingestion-service
+        const ingestRequest = {
+          workspaceId,
+          userId: userId || config.data.VITE_PARAGON_USER_ID,
+          artifactType: 'DOCUMENT',
+          metadata: {
+            source: adapter.source,
+            originalId: file.id,
+            originalMimeType: file.mimeType,
+            exportMimeType: downloaded.mimeType,
+          },
+          tags: [adapter.source, 'paragon'],
+          processingIntent: 'PROCESS',
+        };
+
+        const ingestResponse = await paragonService.ingestFile(fileToSend, ingestRequest, {
+          signal,
+          onProgress: ({ loaded, total }) => {
+            setProgress(total ? Math.round((loaded / total) * 100) : 0);
+          },
+        });
+
+        trackArtifact(ingestResponse.artifactId);
+        return ingestResponse;
+      },
+    [trackArtifact, integration, userId, workspaceId],
+  );
+
+  const { enqueue } = queue;
+  const ingestFile = useCallback(
+    (file: SelectedFile, options: { exportMimeType?: string } = {}) => {
+      enqueue(file.id, file.name, createTask(file, options.exportMimeType));
+    },
+    [enqueue, createTask],
+  );
+
+  return { ...queue, ingestFile };
+}
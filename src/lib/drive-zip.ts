@@ -0,0 +1,223 @@
+import { useCallback, useRef, useState } from 'react';
+
+import {
+  FOLDER_MIME_TYPE,
+  FileStorageAdapter,
+  FileStorageIntegration,
+  SelectedFile,
+  getFileStorageAdapter,
+} from './file-storage';
+import { getDownloadName, saveBlob } from './google-drive-client';
+import { FileZipSink, MEMORY_ZIP_SIZE_LIMIT, MemoryZipSink, ZipSink, ZipWriter } from './zip';
+
+export interface ZipDownloadProgress {
+  // Files finished, including failed ones, out of the total found
+  done: number;
+  total: number;
+  // Still true while folders are being walked
+  isCollecting: boolean;
+  failed: { name: string; error: string }[];
+  // Built in memory, and so limited to MEMORY_ZIP_SIZE_LIMIT, because the
+  // browser can't stream it to disk
+  inMemory: boolean;
+}
+
+interface ZipDownloadOptions {
+  // Name of the saved archive, without the extension
+  archiveName: string;
+  // Export format for a Workspace file, undefined for the default
+  resolveExportMimeType?: (file: SelectedFile) => string | undefined;
+}
+
+type ZipItem =
+  | { kind: 'file'; file: SelectedFile; folder: string }
+  | { kind: 'folder'; path: string };
+
+// Flattens the selection into the files to download, walking folders
+// recursively. Folders are kept so empty ones still show up in the archive,
+// and get their unique path here so their children are placed inside it.
+async function collectItems(
+  adapter: FileStorageAdapter,
+  files: SelectedFile[],
+  usedPaths: Set<string>,
+  signal: AbortSignal,
+  onFound: (count: number) => void,
+): Promise<ZipItem[]> {
+  const items: ZipItem[] = [];
+  let fileCount = 0;
+
+  const walk = async (entries: SelectedFile[], folder: string) => {
+    for (const entry of entries) {
+      signal.throwIfAborted();
+      if (entry.mimeType !== FOLDER_MIME_TYPE) {
+        items.push({ kind: 'file', file: entry, folder });
+        onFound(++fileCount);
+        continue;
+      }
+
+      const path = uniquePath(`${folder}${toPathSegment(entry.name)}/`, usedPaths);
+      items.push({ kind: 'folder', path });
+      let cursor: string | undefined;
+      do {
+        const page = await adapter.listFolder(entry, cursor);
+        await walk(page.items, path);
+        cursor = page.cursor;
+      } while (cursor);
+    }
+  };
+
+  await walk(files, '');
+  return items;
+}
+
+// Drive allows slashes in names, which would otherwise nest the entry
+function toPathSegment(name: string) {
+  return name.replace(/[/\\]/g, '_');
+}
+
+// Drive allows duplicate names, clashes get a counter before the extension.
+// Folder paths end with a slash, their counter goes before it.
+function uniquePath(path: string, used: Set<string>) {
+  let candidate = path;
+  const isDirectory = path.endsWith('/');
+  const name = isDirectory ? path.slice(0, -1) : path;
+  const dot = name.lastIndexOf('.');
+  const hasExtension = !isDirectory && dot > name.lastIndexOf('/') + 1;
+  const base = hasExtension ? name.slice(0, dot) : name;
+  const suffix = `${hasExtension ? name.slice(dot) : ''}${isDirectory ? '/' : ''}`;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// Streams the archive to a file the user picks where the browser supports
+// it, null when the save dialog is dismissed
+async function openFileSink(archiveName: string): Promise<ZipSink | null> {
+  try {
+    const handle = await window.showSaveFilePicker!({
+      suggestedName: `${archiveName}.zip`,
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+    });
+    return new FileZipSink(await handle.createWritable());
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return null;
+    throw err;
+  }
+}
+
+// Downloads files and folders into a single ZIP built in the browser. Files
+// are added to the archive one at a time as they finish downloading, and the
+// archive is streamed to disk when the File System Access API is available.
+export function useZipDownload(integration: FileStorageIntegration = 'googledrive') {
+  const [progress, setProgress] = useState<ZipDownloadProgress | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const downloadZip = useCallback(
+    async (files: SelectedFile[], options: ZipDownloadOptions) => {
+      if (files.length === 0 || controllerRef.current) return;
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const adapter = getFileStorageAdapter(integration);
+      const inMemory = !window.showSaveFilePicker;
+      let sink: ZipSink | null = null;
+      setIsZipping(true);
+      setError(null);
+
+      try {
+        // The save dialog needs the click that started the download, so it
+        // opens before anything else is awaited
+        sink = inMemory ? new MemoryZipSink() : await openFileSink(options.archiveName);
+        if (!sink) return;
+
+        setProgress({ done: 0, total: 0, isCollecting: true, failed: [], inMemory });
+        const usedPaths = new Set<string>();
+        const items = await collectItems(adapter, files, usedPaths, controller.signal, (total) =>
+          setProgress((prev) => prev && { ...prev, total }),
+        );
+        const fileItems = items.filter((item) => item.kind === 'file');
+        // Workspace exports have no known size, the sink still stops at the limit
+        const knownSize = fileItems.reduce((total, item) => total + (item.file.size ?? 0), 0);
+        if (inMemory && knownSize > MEMORY_ZIP_SIZE_LIMIT) {
+          throw new Error(
+            `The selection is too large to ZIP in this browser, the limit is ${Math.round(MEMORY_ZIP_SIZE_LIMIT / 1024 / 1024)} MB`,
+          );
+        }
+        setProgress({ done: 0, total: fileItems.length, isCollecting: false, failed: [], inMemory });
+
+        const zip = new ZipWriter(sink);
+        for (const item of items) {
+          controller.signal.throwIfAborted();
+          if (item.kind === 'folder') {
+            await zip.addDirectory(item.path);
+            continue;
+          }
+
+          try {
+            const downloaded = await adapter.download(item.file, {
+              exportMimeType: options.resolveExportMimeType?.(item.file),
+            });
+            controller.signal.throwIfAborted();
+            const path = uniquePath(
+              `${item.folder}${toPathSegment(getDownloadName(downloaded))}`,
+              usedPaths,
+            );
+            await zip.addFile(path, downloaded.blob);
+            setProgress((prev) => prev && { ...prev, done: prev.done + 1 });
+          } catch (err) {
+            if (controller.signal.aborted) throw err;
+            console.error(`Failed to add ${item.file.name} to the ZIP:`, err);
+            setProgress(
+              (prev) =>
+                prev && {
+                  ...prev,
+                  done: prev.done + 1,
+                  failed: [
+                    ...prev.failed,
+                    {
+                      name: `${item.folder}${item.file.name}`,
+                      error: err instanceof Error ? err.message : 'Unknown error',
+                    },
+                  ],
+                },
+            );
+          }
+        }
+
+        if (zip.entryCount > 0) {
+          await zip.finish();
+          if (sink instanceof MemoryZipSink) {
+            saveBlob(sink.toBlob(), `${options.archiveName}.zip`);
+          }
+        } else {
+          await sink.abort();
+          setError('There were no files to download');
+        }
+      } catch (err) {
+        await sink?.abort().catch(() => undefined);
+        if (controller.signal.aborted) {
+          setProgress(null);
+        } else {
+          console.error('Error building ZIP:', err);
+          setError(err instanceof Error ? err.message : 'Failed to build ZIP');
+        }
+      } finally {
+        controllerRef.current = null;
+        setIsZipping(false);
+      }
+    },
+    [integration],
+  );
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+  const reset = useCallback(() => {
+    setProgress(null);
+    setError(null);
+  }, []);
+
+  return { downloadZip, cancel, reset, progress, isZipping, error };
+}
@@ -0,0 +1,138 @@
+import type { FilePickerInitOptions, FilePickerOptions } from '@useparagon/connect';
+
+import { GOOGLE_FOLDER_MIME_TYPE } from './google-drive-client';
+
+export type MimePreset =
+  | 'pdf'
+  | 'documents'
+  | 'spreadsheets'
+  | 'images'
+  | 'folders'
+  | 'any'
+  | 'custom';
+
+export const MIME_PRESETS: Record<
+  Exclude<MimePreset, 'custom'>,
+  { label: string; mimeTypes: string[] }
+> = {
+  pdf: { label: 'PDF only', mimeTypes: ['application/pdf'] },
+  documents: {
+    label: 'Documents',
+    mimeTypes: [
+      'application/pdf',
+      'application/vnd.google-apps.document',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/msword',
+      'text/plain',
+      'text/markdown',
+    ],
+  },
+  spreadsheets: {
+    label: 'Spreadsheets',
+    mimeTypes: [
+      'application/vnd.google-apps.spreadsheet',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'text/csv',
+    ],
+  },
+  images: {
+    label: 'Images',
+    mimeTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'],
+  },
+  folders: { label: 'Folders only', mimeTypes: [GOOGLE_FOLDER_MIME_TYPE] },
+  // No filter
+  any: { label: 'Any file', mimeTypes: [] },
+};
+
+export interface FilePickerSettings {
+  mimePreset: MimePreset;
+  // Used when mimePreset is 'custom'
+  customMimeTypes: string[];
+  allowFolderSelect: boolean;
+  allowMultiSelect: boolean;
+  // Google Drive folder the picker opens in, empty for the default view
+  startFolderId: string;
+  // Browse Google Drive with the built-in browser, which lists shared drives
+  includeSharedDrives: boolean;
+}
+
+// Matches the picker's original behaviour: several PDFs at a time
+export const DEFAULT_FILE_PICKER_SETTINGS: FilePickerSettings = {
+  mimePreset: 'pdf',
+  customMimeTypes: [],
+  allowFolderSelect: false,
+  allowMultiSelect: true,
+  startFolderId: '',
+  includeSharedDrives: false,
+};
+
+export function getAllowedMimeTypes(settings: FilePickerSettings) {
+  return settings.mimePreset === 'custom'
+    ? settings.customMimeTypes
+    : MIME_PRESETS[settings.mimePreset].mimeTypes;
+}
+
+// Accepts comma or whitespace separated mime types
+export function parseMimeTypes(value: string) {
+  return value
+    .split(/[\s,]+/)
+    .map((mimeType) => mimeType.trim())
+    .filter((mimeType) => /^[\w.+-]+\/[\w.+-]+$/.test(mimeType));
+}
+
+// Options passed through to paragon.ExternalFilePicker. The Google Drive
+// picker in @useparagon/connect builds a single DocsView without shared
+// drive support, so includeSharedDrives swaps it for the built-in browser.
+export function toFilePickerOptions(
+  settings: FilePickerSettings,
+): Pick<
+  FilePickerOptions,
+  'allowedTypes' | 'allowMultiSelect' | 'allowFolderSelect' | 'integrationOptions'
+> {
+  const allowedTypes = getAllowedMimeTypes(settings);
+  const selectsFolders = settings.allowFolderSelect || settings.mimePreset === 'folders';
+
+  return {
+    allowedTypes: allowedTypes.length > 0 ? allowedTypes : undefined,
+    allowMultiSelect: settings.allowMultiSelect,
+    allowFolderSelect: selectsFolders,
+    integrationOptions: {
+      googledrive: { includeFolders: selectsFolders },
+    },
+  };
+}
+
+// The starting folder is a Google Drive ID, other pickers open in their default view
+export function toFilePickerInitOptions(
+  settings: FilePickerSettings,
+  integration: string,
+  credentials: Pick<FilePickerInitOptions, 'developerKey' | 'appId'>,
+): FilePickerInitOptions {
+  return {
+    ...credentials,
+    folderId:
+      integration === 'googledrive' ? settings.startFolderId.trim() || undefined : undefined,
+  };
+}
+
+export function loadFilePickerSettings(stored: unknown): FilePickerSettings {
+  if (!stored || typeof stored !== 'object') {
+    return DEFAULT_FILE_PICKER_SETTINGS;
+  }
+
+  const value = stored as Partial<FilePickerSettings>;
+  return {
+    mimePreset:
+      value.mimePreset === 'custom' || (value.mimePreset && value.mimePreset in MIME_PRESETS)
+        ? value.mimePreset
+        : DEFAULT_FILE_PICKER_SETTINGS.mimePreset,
+    customMimeTypes: Array.isArray(value.customMimeTypes)
+      ? value.customMimeTypes.filter((mimeType): mimeType is string => typeof mimeType === 'string')
+      : [],
+    allowFolderSelect: value.allowFolderSelect ?? DEFAULT_FILE_PICKER_SETTINGS.allowFolderSelect,
+    allowMultiSelect: value.allowMultiSelect ?? DEFAULT_FILE_PICKER_SETTINGS.allowMultiSelect,
+    startFolderId: typeof value.startFolderId === 'string' ? value.startFolderId : '',
+    includeSharedDrives:
+      value.includeSharedDrives ?? DEFAULT_FILE_PICKER_SETTINGS.includeSharedDrives,
+  };
+}
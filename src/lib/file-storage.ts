@@ -0,0 +1,324 @@
+import { paragon } from '@useparagon/connect';
+
+import {
+  DownloadedDriveFile,
+  GOOGLE_FOLDER_MIME_TYPE,
+  googleDrive,
+} from './google-drive-client';
+
+// Mime type used for folders of every provider once normalized
+export const FOLDER_MIME_TYPE = GOOGLE_FOLDER_MIME_TYPE;
+
+export type FileStorageIntegration =
+  | 'googledrive'
+  | 'onedrive'
+  | 'sharepoint'
+  | 'box'
+  | 'dropbox';
+
+// A file or folder picked from any provider
+export interface SelectedFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: number;
+  thumbnailUrl?: string;
+  isShared?: boolean;
+  type?: string;
+  url?: string;
+  // Drive containing the item, for providers with several drives per account
+  driveId?: string;
+}
+
+// A folder to list, null being the root folder
+export type FolderRef = Pick<SelectedFile, 'id' | 'driveId'> | null;
+
+export interface FileStorageFolder {
+  items: SelectedFile[];
+  // Passed back to load the next page
+  cursor?: string;
+}
+
+export interface FileStorageAdapter {
+  integration: FileStorageIntegration;
+  name: string;
+  // Used as the ingestion source
+  source: string;
+  // Whether paragon.ExternalFilePicker has a picker for this provider
+  hasNativePicker: boolean;
+  // Converts what the native picker passes to onFileSelect
+  normalizePickerResponse(response: unknown): SelectedFile[];
+  // Lists a folder for the fallback browser and folder downloads
+  listFolder(folder: FolderRef, cursor?: string): Promise<FileStorageFolder>;
+  download(file: SelectedFile, options?: { exportMimeType?: string }): Promise<DownloadedDriveFile>;
+}
+
+export class FileStorageError extends Error {
+  readonly name = 'FileStorageError';
+
+  constructor(
+    message: string,
+    readonly integration: FileStorageIntegration,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  zip: 'application/zip',
+};
+
+// Box and Dropbox don't report mime types, so they're guessed from the name
+export function guessMimeType(name: string) {
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+function toArray(response: unknown, key?: string): Record<string, unknown>[] {
+  const value =
+    key && response && typeof response === 'object' && key in response
+      ? (response as Record<string, unknown>)[key]
+      : response;
+  return Array.isArray(value) ? value : [];
+}
+
+async function send<T>(
+  integration: FileStorageIntegration,
+  path: string,
+  init: Partial<Parameters<typeof paragon.request>[2]> = {},
+): Promise<T> {
+  try {
+    const response = await paragon.request<T>(integration, path, {
+      method: 'GET',
+      body: undefined,
+      headers: undefined,
+      ...init,
+    });
+    return response as T;
+  } catch (error) {
+    throw new FileStorageError(
+      `${integration} request to ${path} failed${error instanceof Error ? `: ${error.message}` : ''}`,
+      integration,
+      error,
+    );
+  }
+}
+
+async function downloadFrom(
+  integration: FileStorageIntegration,
+  file: SelectedFile,
+  path: string,
+  init: Partial<Parameters<typeof paragon.request>[2]> = {},
+): Promise<DownloadedDriveFile> {
+  const response = await send<BlobPart>(integration, path, init);
+  return {
+    blob: new Blob([response ?? ''], { type: file.mimeType }),
+    mimeType: file.mimeType,
+    originalMimeType: file.mimeType,
+    name: file.name,
+  };
+}
+
+// Google Picker documents: {docs: [{id, name, mimeType, sizeBytes, ...}]}
+const googleDriveAdapter: FileStorageAdapter = {
+  integration: 'googledrive',
+  name: 'Google Drive',
+  source: 'google-drive',
+  hasNativePicker: true,
+  normalizePickerResponse: (response) =>
+    toArray(response, 'docs').map((doc) => ({
+      id: String(doc.id),
+      name: String(doc.name),
+      mimeType: String(doc.mimeType),
+      size: doc.sizeBytes ? parseInt(String(doc.sizeBytes)) : undefined,
+      thumbnailUrl: doc.thumbnailUrl as string | undefined,
+      isShared: doc.isShared as boolean | undefined,
+      type: doc.type as string | undefined,
+      url: doc.url as string | undefined,
+    })),
+  listFolder: async (folder, cursor) => {
+    const page = await googleDrive.listFolder(folder?.id ?? 'root', {
+      pageToken: cursor,
+      driveId: folder?.driveId,
+    });
+    return {
+      items: page.files.map((file) => ({
+        id: file.id,
+        name: file.name,
+        mimeType: file.mimeType,
+        size: file.size ? parseInt(file.size) : undefined,
+        thumbnailUrl: file.thumbnailLink,
+        driveId: file.driveId,
+      })),
+      cursor: page.nextPageToken,
+    };
+  },
+  download: (file, options) => googleDrive.download(file, options),
+};
+
+// Microsoft Graph drive items, used by both OneDrive and SharePoint
+function fromDriveItem(item: Record<string, unknown>): SelectedFile {
+  const file = item.file as { mimeType?: string } | undefined;
+  const parent = item.parentReference as { driveId?: string } | undefined;
+  return {
+    id: String(item.id),
+    name: String(item.name),
+    mimeType: item.folder ? FOLDER_MIME_TYPE : file?.mimeType ?? guessMimeType(String(item.name)),
+    size: typeof item.size === 'number' ? item.size : undefined,
+    url: item.webUrl as string | undefined,
+    driveId: parent?.driveId,
+  };
+}
+
+// paragon.request proxies paths relative to the Graph base URL, while
+// @odata.nextLink is absolute
+const GRAPH_BASE_URL = 'https://graph.microsoft.com/v1.0';
+
+function toGraphPath(url: string) {
+  return url.startsWith(GRAPH_BASE_URL) ? url.slice(GRAPH_BASE_URL.length) : url;
+}
+
+function driveItemPath(file: Pick<SelectedFile, 'id' | 'driveId'>) {
+  return file.driveId ? `/drives/${file.driveId}/items/${file.id}` : `/me/drive/items/${file.id}`;
+}
+
+function createMicrosoftAdapter(
+  integration: 'onedrive' | 'sharepoint',
+  name: string,
+  rootPath: string,
+): FileStorageAdapter {
+  return {
+    integration,
+    name,
+    source: integration,
+    hasNativePicker: true,
+    // The Microsoft picker passes the picked drive items directly
+    normalizePickerResponse: (response) => toArray(response).map(fromDriveItem),
+    listFolder: async (folder, cursor) => {
+      const response = await send<{ value: Record<string, unknown>[]; '@odata.nextLink'?: string }>(
+        integration,
+        cursor ? toGraphPath(cursor) : `${folder ? driveItemPath(folder) : `${rootPath}/root`}/children`,
+      );
+      return {
+        items: (response?.value ?? []).map(fromDriveItem),
+        cursor: response?.['@odata.nextLink'],
+      };
+    },
+    download: (file) => downloadFrom(integration, file, `${driveItemPath(file)}/content`),
+  };
+}
+
+function fromBoxItem(item: Record<string, unknown>): SelectedFile {
+  const sharedLink = item.shared_link as { url?: string } | undefined;
+  return {
+    id: String(item.id),
+    name: String(item.name),
+    mimeType: item.type === 'folder' ? FOLDER_MIME_TYPE : guessMimeType(String(item.name)),
+    size: typeof item.size === 'number' ? item.size : undefined,
+    url: sharedLink?.url,
+  };
+}
+
+const BOX_PAGE_SIZE = 100;
+
+const boxAdapter: FileStorageAdapter = {
+  integration: 'box',
+  name: 'Box',
+  source: 'box',
+  hasNativePicker: true,
+  normalizePickerResponse: (response) => toArray(response).map(fromBoxItem),
+  listFolder: async (folder, cursor) => {
+    const offset = Number(cursor ?? 0);
+    const response = await send<{ entries: Record<string, unknown>[]; total_count: number }>(
+      'box',
+      `/folders/${folder?.id ?? '0'}/items?fields=id,name,type,size&limit=${BOX_PAGE_SIZE}&offset=${offset}`,
+    );
+    const next = offset + BOX_PAGE_SIZE;
+    return {
+      items: (response?.entries ?? []).map(fromBoxItem),
+      cursor: response && next < response.total_count ? String(next) : undefined,
+    };
+  },
+  download: (file) => downloadFrom('box', file, `/files/${file.id}/content`),
+};
+
+// Dropbox identifies items by ID or path, IDs are used throughout
+function fromDropboxEntry(entry: Record<string, unknown>): SelectedFile {
+  return {
+    id: String(entry.id),
+    name: String(entry.name),
+    mimeType: entry['.tag'] === 'folder' ? FOLDER_MIME_TYPE : guessMimeType(String(entry.name)),
+    size: typeof entry.size === 'number' ? entry.size : undefined,
+  };
+}
+
+// Passed relative like every other proxied path
+const DROPBOX_DOWNLOAD_PATH = '/files/download';
+
+const dropboxAdapter: FileStorageAdapter = {
+  integration: 'dropbox',
+  name: 'Dropbox',
+  source: 'dropbox',
+  hasNativePicker: false,
+  normalizePickerResponse: (response) => toArray(response).map(fromDropboxEntry),
+  listFolder: async (folder, cursor) => {
+    const response = await send<{
+      entries: Record<string, unknown>[];
+      cursor: string;
+      has_more: boolean;
+    }>(
+      'dropbox',
+      cursor ? '/files/list_folder/continue' : '/files/list_folder',
+      {
+        method: 'POST',
+        // The root folder is the empty path
+        body: cursor ? { cursor } : { path: folder?.id ?? '' },
+      },
+    );
+    return {
+      items: (response?.entries ?? []).map(fromDropboxEntry),
+      cursor: response?.has_more ? response.cursor : undefined,
+    };
+  },
+  // Content endpoints take their arguments in a header instead of the body
+  download: (file) =>
+    downloadFrom('dropbox', file, DROPBOX_DOWNLOAD_PATH, {
+      method: 'POST',
+      headers: { 'Dropbox-API-Arg': JSON.stringify({ path: file.id }) },
+    }),
+};
+
+export const FILE_STORAGE_ADAPTERS: Record<FileStorageIntegration, FileStorageAdapter> = {
+  googledrive: googleDriveAdapter,
+  onedrive: createMicrosoftAdapter('onedrive', 'OneDrive', '/me/drive'),
+  sharepoint: createMicrosoftAdapter('sharepoint', 'SharePoint', '/sites/root/drive'),
+  box: boxAdapter,
+  dropbox: dropboxAdapter,
+};
+
+export function isFileStorageIntegration(type: string): type is FileStorageIntegration {
+  return Object.hasOwn(FILE_STORAGE_ADAPTERS, type);
+}
+
+export function getFileStorageAdapter(integration: FileStorageIntegration) {
+  return FILE_STORAGE_ADAPTERS[integration];
+}
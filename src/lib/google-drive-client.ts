@@ -0,0 +1,885 @@
+import { paragon } from '@useparagon/connect';
+
+export const GOOGLE_DRIVE_INTEGRATION = 'googledrive';
+export const GOOGLE_FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// paragon.request proxies paths relative to this base URL
+const DRIVE_API_BASE_URL = 'https://www.googleapis.com/drive/v3';
+
+export interface ExportFormat {
+  label: string;
+  mimeType: string;
+  extension: string;
+}
+
+const PDF_FORMAT: ExportFormat = {
+  label: 'PDF',
+  mimeType: 'application/pdf',
+  extension: 'pdf',
+};
+const PLAIN_TEXT_FORMAT: ExportFormat = {
+  label: 'Plain text',
+  mimeType: 'text/plain',
+  extension: 'txt',
+};
+
+// Formats each Google Workspace type can be exported to
+// https://developers.google.com/drive/api/guides/ref-export-formats
+export const EXPORT_FORMAT_OPTIONS: Record<string, ExportFormat[]> = {
+  'application/vnd.google-apps.document': [
+    {
+      label: 'Word (.docx)',
+      mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      extension: 'docx',
+    },
+    PDF_FORMAT,
+    { label: 'Markdown', mimeType: 'text/markdown', extension: 'md' },
+    PLAIN_TEXT_FORMAT,
+    { label: 'HTML (zipped)', mimeType: 'application/zip', extension: 'zip' },
+  ],
+  'application/vnd.google-apps.spreadsheet': [
+    {
+      label: 'Excel (.xlsx)',
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      extension: 'xlsx',
+    },
+    { label: 'CSV (first sheet)', mimeType: 'text/csv', extension: 'csv' },
+    PDF_FORMAT,
+  ],
+  'application/vnd.google-apps.presentation': [
+    {
+      label: 'PowerPoint (.pptx)',
+      mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      extension: 'pptx',
+    },
+    PDF_FORMAT,
+    PLAIN_TEXT_FORMAT,
+  ],
+};
+
+// Default export formats for Google Workspace files. Anything else that
+// cannot be downloaded directly is exported as PDF.
+export const DEFAULT_EXPORT_FORMATS: Record<string, string> = {
+  'application/vnd.google-apps.document':
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.google-apps.spreadsheet':
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.google-apps.presentation':
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+const FALLBACK_EXPORT_MIME_TYPE = 'application/pdf';
+
+// Formats Workspace files are exported to for in-app previews, picked so the
+// browser can render them. Sheets only export their first sheet as CSV.
+const PREVIEW_EXPORT_FORMATS: Record<string, string> = {
+  'application/vnd.google-apps.document': 'application/pdf',
+  'application/vnd.google-apps.spreadsheet': 'text/csv',
+  'application/vnd.google-apps.presentation': 'application/pdf',
+  'application/vnd.google-apps.drawing': 'image/png',
+};
+
+// Larger files are not fetched for previews
+export const PREVIEW_SIZE_LIMIT = 20 * 1024 * 1024;
+
+export type PreviewKind = 'pdf' | 'image' | 'text' | 'csv' | 'unsupported';
+
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/x-yaml'];
+
+// Resumable uploads are sent in chunks of this size, Drive requires a
+// multiple of 256KB
+// https://developers.google.com/drive/api/guides/manage-uploads#resumable
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+// Failed chunks are resumed this many times before the upload is given up
+const UPLOAD_CHUNK_ATTEMPTS = 3;
+
+const DEFAULT_FILE_FIELDS =
+  'id,name,mimeType,size,parents,driveId,createdTime,modifiedTime,thumbnailLink';
+
+const DETAILS_FIELDS =
+  `${DEFAULT_FILE_FIELDS},owners,lastModifyingUser,webViewLink,shared`;
+const PERMISSION_FIELDS =
+  'id,type,role,emailAddress,domain,displayName,expirationTime,deleted,permissionDetails';
+const REVISION_FIELDS =
+  'id,mimeType,modifiedTime,size,keepForever,lastModifyingUser,originalFilename,exportLinks';
+
+// Stop walking up the folder tree after this many parents
+const MAX_PATH_DEPTH = 50;
+
+// Lets single-file calls reach files in shared drives
+// https://developers.google.com/drive/api/guides/enable-shareddrives
+const ALL_DRIVES = 'supportsAllDrives=true';
+
+export interface GoogleDriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: string;
+  parents?: string[];
+  // Set for files in a shared drive
+  driveId?: string;
+  createdTime?: string;
+  modifiedTime?: string;
+  thumbnailLink?: string;
+}
+
+export interface DriveUser {
+  displayName?: string;
+  emailAddress?: string;
+  photoLink?: string;
+}
+
+export interface DrivePermission {
+  id: string;
+  type: 'user' | 'group' | 'domain' | 'anyone';
+  role: 'owner' | 'organizer' | 'fileOrganizer' | 'writer' | 'commenter' | 'reader';
+  emailAddress?: string;
+  domain?: string;
+  displayName?: string;
+  expirationTime?: string;
+  // Set when the user or group was deleted
+  deleted?: boolean;
+  // For shared drive files, whether access comes from a parent folder or the drive
+  permissionDetails?: { inherited?: boolean; inheritedFrom?: string }[];
+}
+
+export interface DriveFileDetails extends GoogleDriveFile {
+  // Empty for files in shared drives, which are owned by the drive
+  owners?: DriveUser[];
+  lastModifyingUser?: DriveUser;
+  webViewLink?: string;
+  shared?: boolean;
+}
+
+export interface DriveRevision {
+  id: string;
+  mimeType: string;
+  modifiedTime: string;
+  size?: string;
+  keepForever?: boolean;
+  lastModifyingUser?: DriveUser;
+  originalFilename?: string;
+  // Workspace file revisions can only be downloaded through these
+  exportLinks?: Record<string, string>;
+}
+
+export interface GoogleDriveFileList {
+  files: GoogleDriveFile[];
+  nextPageToken?: string;
+}
+
+export interface ListFilesParams {
+  q?: string;
+  pageSize?: number;
+  pageToken?: string;
+  orderBy?: string;
+  // Fields requested for each file
+  fields?: string;
+  // Shared drive to list, otherwise the user's own and shared-with-me files
+  driveId?: string;
+}
+
+export interface DriveChange {
+  changeType: 'file' | 'drive';
+  fileId?: string;
+  // True when the file was deleted or the user lost access to it
+  removed: boolean;
+  time: string;
+  file?: GoogleDriveFile & { trashed?: boolean };
+}
+
+export interface DriveChangeList {
+  changes: DriveChange[];
+  // Set while there are more pages
+  nextPageToken?: string;
+  // Set on the last page, the token to poll from next time
+  newStartPageToken?: string;
+}
+
+export interface SharedDrive {
+  id: string;
+  name: string;
+}
+
+export type MimeFamily = 'pdf' | 'docs' | 'sheets' | 'slides' | 'images' | 'folders';
+
+export const MIME_FAMILY_LABELS: Record<MimeFamily, string> = {
+  pdf: 'PDF',
+  docs: 'Docs',
+  sheets: 'Sheets',
+  slides: 'Slides',
+  images: 'Images',
+  folders: 'Folders',
+};
+
+const MIME_FAMILY_QUERIES: Record<MimeFamily, string> = {
+  pdf: "mimeType='application/pdf'",
+  docs: "mimeType='application/vnd.google-apps.document'",
+  sheets: "mimeType='application/vnd.google-apps.spreadsheet'",
+  slides: "mimeType='application/vnd.google-apps.presentation'",
+  images: "mimeType contains 'image/'",
+  folders: `mimeType='${GOOGLE_FOLDER_MIME_TYPE}'`,
+};
+
+export interface DriveSearchFilters {
+  text?: string;
+  // Match `text` against file names only instead of the full content
+  nameOnly?: boolean;
+  mimeFamily?: MimeFamily;
+  // Email address of an owner
+  owner?: string;
+  // Date (YYYY-MM-DD) or RFC 3339 timestamp
+  modifiedAfter?: string;
+}
+
+// The minimum needed to download a file
+export interface DriveFileRef {
+  id: string;
+  name: string;
+  mimeType: string;
+}
+
+export interface DownloadedDriveFile {
+  blob: Blob;
+  // Mime type of the downloaded content, which differs from the Drive mime
+  // type for exported Workspace files
+  mimeType: string;
+  // Drive mime type of the source file
+  originalMimeType: string;
+  name: string;
+}
+
+export interface DriveUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+interface UploadChunkResult {
+  // Bytes Drive has stored, unknown when it didn't say
+  received?: number;
+  // Set once Drive has the whole file
+  file?: GoogleDriveFile;
+}
+
+type ParagonRequest = typeof paragon.request;
+
+export class GoogleDriveError extends Error {
+  readonly name = 'GoogleDriveError';
+
+  constructor(
+    message: string,
+    readonly operation: string,
+    readonly fileId: string | null,
+    readonly status: number | null,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+// Paragon proxy errors don't have a stable shape, pick up a status if present
+function statusOf(error: unknown): number | null {
+  if (error && typeof error === 'object') {
+    const { status, statusCode } = error as { status?: unknown; statusCode?: unknown };
+    if (typeof status === 'number') return status;
+    if (typeof statusCode === 'number') return statusCode;
+  }
+  return null;
+}
+
+// PUTs one chunk, or with no body asks how much Drive has stored. Drive
+// answers 308 with a Range header until the last byte is in.
+function sendUploadChunk(
+  uploadUrl: string,
+  chunk: Blob | null,
+  contentRange: string,
+  options: DriveUploadOptions,
+): Promise<UploadChunkResult> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(options.signal.reason);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', uploadUrl);
+    xhr.setRequestHeader('Content-Range', contentRange);
+
+    const onAbort = () => xhr.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => options.signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        options.onProgress?.(event.loaded, event.total);
+      }
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status === 200 || xhr.status === 201) {
+        try {
+          resolve({ file: JSON.parse(xhr.responseText) as GoogleDriveFile });
+        } catch (error) {
+          reject(new GoogleDriveError('Drive returned no file', 'uploadFile', null, xhr.status, error));
+        }
+        return;
+      }
+      if (xhr.status === 308) {
+        const range = xhr.getResponseHeader('Range')?.match(/bytes=0-(\d+)/);
+        resolve({ received: range ? Number(range[1]) + 1 : undefined });
+        return;
+      }
+      reject(
+        new GoogleDriveError(
+          `Google Drive uploadFile failed: ${xhr.status} ${xhr.statusText}`,
+          'uploadFile',
+          null,
+          xhr.status,
+        ),
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new GoogleDriveError('Google Drive uploadFile failed: network error', 'uploadFile', null, null));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(options.signal?.reason ?? new DOMException('Upload aborted', 'AbortError'));
+    };
+
+    xhr.send(chunk);
+  });
+}
+
+// Quotes a value for use in a Drive search query
+export function quoteQueryValue(value: string) {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// Builds a Drive `q` query from search filters
+// https://developers.google.com/drive/api/guides/search-files
+export function buildSearchQuery(filters: DriveSearchFilters) {
+  const clauses = ['trashed=false'];
+  const text = filters.text?.trim();
+  if (text) {
+    clauses.push(
+      `${filters.nameOnly ? 'name' : 'fullText'} contains ${quoteQueryValue(text)}`,
+    );
+  }
+  if (filters.mimeFamily) {
+    clauses.push(MIME_FAMILY_QUERIES[filters.mimeFamily]);
+  }
+  const owner = filters.owner?.trim();
+  if (owner) {
+    clauses.push(`${quoteQueryValue(owner)} in owners`);
+  }
+  if (filters.modifiedAfter) {
+    const timestamp = filters.modifiedAfter.includes('T')
+      ? filters.modifiedAfter
+      : `${filters.modifiedAfter}T00:00:00`;
+    clauses.push(`modifiedTime > ${quoteQueryValue(timestamp)}`);
+  }
+  return clauses.join(' and ');
+}
+
+export function hasSearchFilters(filters: DriveSearchFilters) {
+  return buildSearchQuery(filters) !== 'trashed=false';
+}
+
+export function isWorkspaceFile(mimeType: string) {
+  return mimeType.startsWith('application/vnd.google-apps');
+}
+
+export function isFolder(mimeType: string) {
+  return mimeType === GOOGLE_FOLDER_MIME_TYPE;
+}
+
+// Export format for a Workspace file, preferring the workspace defaults
+export function getExportMimeType(
+  mimeType: string,
+  preferences: Record<string, string> = {},
+) {
+  return (
+    preferences[mimeType] ?? DEFAULT_EXPORT_FORMATS[mimeType] ?? FALLBACK_EXPORT_MIME_TYPE
+  );
+}
+
+export function getExportFormats(mimeType: string): ExportFormat[] {
+  return EXPORT_FORMAT_OPTIONS[mimeType] ?? [PDF_FORMAT];
+}
+
+// Format a file is downloaded in for a preview, undefined for regular files
+export function getPreviewExportMimeType(mimeType: string) {
+  return isWorkspaceFile(mimeType)
+    ? PREVIEW_EXPORT_FORMATS[mimeType] ?? FALLBACK_EXPORT_MIME_TYPE
+    : undefined;
+}
+
+// How downloaded content of the given mime type is shown
+export function getPreviewKind(mimeType: string): PreviewKind {
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'text/csv') return 'csv';
+  if (mimeType.startsWith('text/') || TEXT_MIME_TYPES.includes(mimeType)) return 'text';
+  return 'unsupported';
+}
+
+// Adds the export format's extension unless the name already has it
+export function getDownloadName(
+  file: Pick<DownloadedDriveFile, 'name' | 'mimeType' | 'originalMimeType'>,
+) {
+  if (file.mimeType === file.originalMimeType) {
+    return file.name;
+  }
+  const format = getExportFormats(file.originalMimeType).find(
+    (option) => option.mimeType === file.mimeType,
+  );
+  if (!format || file.name.toLowerCase().endsWith(`.${format.extension}`)) {
+    return file.name;
+  }
+  return `${file.name}.${format.extension}`;
+}
+
+// Typed access to the Google Drive v3 API through the Paragon proxy. The
+// request function is injectable so the client can run against a fake.
+export class GoogleDriveClient {
+  constructor(
+    private request: ParagonRequest = paragon.request.bind(paragon),
+  ) {}
+
+  async listFiles(params: ListFilesParams = {}): Promise<GoogleDriveFileList> {
+    const query = new URLSearchParams({
+      q: params.q ?? 'trashed=false',
+      pageSize: String(params.pageSize ?? 100),
+      fields: `nextPageToken,files(${params.fields ?? DEFAULT_FILE_FIELDS})`,
+      supportsAllDrives: 'true',
+      includeItemsFromAllDrives: 'true',
+      corpora: params.driveId ? 'drive' : 'user',
+    });
+    if (params.driveId) query.set('driveId', params.driveId);
+    if (params.pageToken) query.set('pageToken', params.pageToken);
+    if (params.orderBy) query.set('orderBy', params.orderBy);
+
+    const response = await this.send<GoogleDriveFileList>(
+      'listFiles',
+      null,
+      `/files?${query}`,
+    );
+    return { files: response?.files ?? [], nextPageToken: response?.nextPageToken };
+  }
+
+  // Follows nextPageToken until every page is loaded or maxPages is reached
+  async listAllFiles(
+    params: Omit<ListFilesParams, 'pageToken'> = {},
+    maxPages = 20,
+  ): Promise<GoogleDriveFile[]> {
+    const files: GoogleDriveFile[] = [];
+    let pageToken: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      const response = await this.listFiles({ ...params, pageToken });
+      files.push(...response.files);
+      pageToken = response.nextPageToken;
+      if (!pageToken) break;
+    }
+    return files;
+  }
+
+  // One page of a folder's children, folders first
+  async listFolder(
+    folderId: string,
+    params: Omit<ListFilesParams, 'q'> = {},
+  ): Promise<GoogleDriveFileList> {
+    return this.listFiles({
+      orderBy: 'folder,name',
+      ...params,
+      q: `${quoteQueryValue(folderId)} in parents and trashed=false`,
+    });
+  }
+
+  // One page of files matching the filters across the whole drive. Full
+  // text searches can't be ordered, so they keep Drive's relevance order.
+  async search(
+    filters: DriveSearchFilters,
+    params: Omit<ListFilesParams, 'q'> = {},
+  ): Promise<GoogleDriveFileList> {
+    const isFullText = Boolean(filters.text?.trim()) && !filters.nameOnly;
+    return this.listFiles({
+      ...(isFullText ? {} : { orderBy: 'modifiedTime desc' }),
+      ...params,
+      q: buildSearchQuery(filters),
+    });
+  }
+
+  // Shared drives the user is a member of
+  async listDrives(maxPages = 10): Promise<SharedDrive[]> {
+    const drives: SharedDrive[] = [];
+    let pageToken: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      const query = new URLSearchParams({
+        pageSize: '100',
+        fields: 'nextPageToken,drives(id,name)',
+      });
+      if (pageToken) query.set('pageToken', pageToken);
+
+      const response = await this.send<{ drives?: SharedDrive[]; nextPageToken?: string }>(
+        'listDrives',
+        null,
+        `/drives?${query}`,
+      );
+      drives.push(...(response?.drives ?? []));
+      pageToken = response?.nextPageToken;
+      if (!pageToken) break;
+    }
+    return drives;
+  }
+
+  // Token for changes made after this call
+  async getStartPageToken(): Promise<string> {
+    const response = await this.send<{ startPageToken?: string }>(
+      'getStartPageToken',
+      null,
+      `/changes/startPageToken?${ALL_DRIVES}`,
+    );
+    if (!response?.startPageToken) {
+      throw new GoogleDriveError(
+        'Drive returned no start page token',
+        'getStartPageToken',
+        null,
+        null,
+      );
+    }
+    return response.startPageToken;
+  }
+
+  async listChanges(pageToken: string, pageSize = 100): Promise<DriveChangeList> {
+    const query = new URLSearchParams({
+      pageToken,
+      pageSize: String(pageSize),
+      supportsAllDrives: 'true',
+      includeItemsFromAllDrives: 'true',
+      fields:
+        'nextPageToken,newStartPageToken,' +
+        `changes(changeType,fileId,removed,time,file(${DEFAULT_FILE_FIELDS},trashed))`,
+    });
+
+    const response = await this.send<DriveChangeList>('listChanges', null, `/changes?${query}`);
+    return {
+      changes: response?.changes ?? [],
+      nextPageToken: response?.nextPageToken,
+      newStartPageToken: response?.newStartPageToken,
+    };
+  }
+
+  async getFile(fileId: string, fields = DEFAULT_FILE_FIELDS): Promise<GoogleDriveFile> {
+    const response = await this.send<GoogleDriveFile>(
+      'getFile',
+      fileId,
+      `/files/${fileId}?fields=${encodeURIComponent(fields)}&${ALL_DRIVES}`,
+    );
+    if (!response) {
+      throw new GoogleDriveError(`File ${fileId} not found`, 'getFile', fileId, 404);
+    }
+    return response;
+  }
+
+  async getFileDetails(fileId: string): Promise<DriveFileDetails> {
+    return this.getFile(fileId, DETAILS_FIELDS);
+  }
+
+  // Everyone with access to a file. files.get leaves permissions out for
+  // shared drive files, so they're always listed separately.
+  async listPermissions(fileId: string): Promise<DrivePermission[]> {
+    const permissions: DrivePermission[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const query = new URLSearchParams({
+        fields: `nextPageToken,permissions(${PERMISSION_FIELDS})`,
+        supportsAllDrives: 'true',
+        pageSize: '100',
+      });
+      if (pageToken) query.set('pageToken', pageToken);
+
+      const response = await this.send<{ permissions?: DrivePermission[]; nextPageToken?: string }>(
+        'listPermissions',
+        fileId,
+        `/files/${fileId}/permissions?${query}`,
+      );
+      permissions.push(...(response?.permissions ?? []));
+      pageToken = response?.nextPageToken;
+    } while (pageToken);
+
+    return permissions;
+  }
+
+  // Revisions from oldest to newest. Drive may merge or drop old revisions
+  // of binary files unless they're kept forever.
+  async listRevisions(fileId: string): Promise<DriveRevision[]> {
+    const revisions: DriveRevision[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const query = new URLSearchParams({
+        fields: `nextPageToken,revisions(${REVISION_FIELDS})`,
+        pageSize: '200',
+      });
+      if (pageToken) query.set('pageToken', pageToken);
+
+      const response = await this.send<{ revisions?: DriveRevision[]; nextPageToken?: string }>(
+        'listRevisions',
+        fileId,
+        `/files/${fileId}/revisions?${query}`,
+      );
+      revisions.push(...(response?.revisions ?? []));
+      pageToken = response?.nextPageToken;
+    } while (pageToken);
+
+    return revisions;
+  }
+
+  // Folder names from the drive root down to the file's parent. Parents the
+  // user can't read end the walk early.
+  async getPath(file: Pick<GoogleDriveFile, 'parents'>): Promise<string[]> {
+    const path: string[] = [];
+    let parentId = file.parents?.[0];
+
+    while (parentId && path.length < MAX_PATH_DEPTH) {
+      try {
+        const parent = await this.getFile(parentId, 'id,name,parents');
+        path.unshift(parent.name);
+        parentId = parent.parents?.[0];
+      } catch (error) {
+        if (error instanceof GoogleDriveError && (error.status === 403 || error.status === 404)) {
+          break;
+        }
+        throw error;
+      }
+    }
+    return path;
+  }
+
+  // Downloads an older revision. Binary files are fetched directly, Workspace
+  // files through the revision's export link for `exportMimeType`.
+  async downloadRevision(
+    file: DriveFileRef,
+    revision: DriveRevision,
+    options: { exportMimeType?: string } = {},
+  ): Promise<DownloadedDriveFile> {
+    if (isWorkspaceFile(file.mimeType)) {
+      const exportMimeType = options.exportMimeType ?? getExportMimeType(file.mimeType);
+      const exportLink =
+        revision.exportLinks?.[exportMimeType] ?? revision.exportLinks?.[FALLBACK_EXPORT_MIME_TYPE];
+      // Export links usually point at docs.google.com, which the proxy can't reach
+      const exportPath = exportLink?.startsWith(`${DRIVE_API_BASE_URL}/`)
+        ? exportLink.slice(DRIVE_API_BASE_URL.length)
+        : null;
+      if (!exportPath) {
+        throw new GoogleDriveError(
+          `Revision ${revision.id} of ${file.name} can't be exported through the Drive API, open it in Google Drive instead`,
+          'downloadRevision',
+          file.id,
+          null,
+        );
+      }
+      const mimeType = revision.exportLinks?.[exportMimeType] ? exportMimeType : FALLBACK_EXPORT_MIME_TYPE;
+      const response = await this.send<BlobPart>('downloadRevision', file.id, exportPath);
+      return {
+        blob: new Blob([response ?? ''], { type: mimeType }),
+        mimeType,
+        originalMimeType: file.mimeType,
+        name: file.name,
+      };
+    }
+
+    const response = await this.send<BlobPart>(
+      'downloadRevision',
+      file.id,
+      `/files/${file.id}/revisions/${revision.id}?alt=media`,
+    );
+    const mimeType = revision.mimeType || file.mimeType;
+    return {
+      blob: new Blob([response ?? ''], { type: mimeType }),
+      mimeType,
+      originalMimeType: mimeType,
+      name: revision.originalFilename ?? file.name,
+    };
+  }
+
+  async renameFile(fileId: string, name: string): Promise<GoogleDriveFile> {
+    return this.updateFile('renameFile', fileId, { name });
+  }
+
+  // Moves a file to the trash, it can still be restored from Drive
+  async trashFile(fileId: string): Promise<GoogleDriveFile> {
+    return this.updateFile('trashFile', fileId, { trashed: true });
+  }
+
+  async createFolder(name: string, parentId = 'root'): Promise<GoogleDriveFile> {
+    const response = await this.send<GoogleDriveFile>(
+      'createFolder',
+      null,
+      `/files?fields=${encodeURIComponent(DEFAULT_FILE_FIELDS)}&${ALL_DRIVES}`,
+      {
+        method: 'POST',
+        body: { name, mimeType: GOOGLE_FOLDER_MIME_TYPE, parents: [parentId] },
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+    if (!response) {
+      throw new GoogleDriveError('Drive returned no folder', 'createFolder', null, null);
+    }
+    return response;
+  }
+
+  // Uploads a local file to a resumable session opened by the backend, in
+  // chunks, reporting progress as bytes are sent. A failed chunk asks Drive
+  // how much it stored and carries on from there. The session URL needs no
+  // credentials and paragon.request can't send binary bodies, so chunks go
+  // straight to Drive.
+  async uploadFile(
+    file: File,
+    uploadUrl: string,
+    options: DriveUploadOptions = {},
+  ): Promise<GoogleDriveFile> {
+    let offset = 0;
+    let failures = 0;
+    options.onProgress?.(0, file.size);
+
+    for (;;) {
+      options.signal?.throwIfAborted();
+      const end = Math.min(offset + UPLOAD_CHUNK_SIZE, file.size);
+      const contentRange =
+        file.size === 0 ? 'bytes */0' : `bytes ${offset}-${end - 1}/${file.size}`;
+
+      let result: UploadChunkResult;
+      try {
+        result = await sendUploadChunk(uploadUrl, file.slice(offset, end), contentRange, {
+          signal: options.signal,
+          onProgress: (loaded) => options.onProgress?.(offset + loaded, file.size),
+        });
+        failures = 0;
+      } catch (error) {
+        if (options.signal?.aborted || ++failures >= UPLOAD_CHUNK_ATTEMPTS) {
+          throw error;
+        }
+        console.warn(`Resuming upload of ${file.name} after a failed chunk:`, error);
+        result = await sendUploadChunk(uploadUrl, null, `bytes */${file.size}`, {
+          signal: options.signal,
+        }).then(
+          (status) => (status.file ? status : { received: status.received ?? offset }),
+          () => ({ received: offset }),
+        );
+      }
+
+      if (result.file) {
+        options.onProgress?.(file.size, file.size);
+        return result.file;
+      }
+      // Without a Range header the chunk is taken as stored
+      offset = result.received ?? end;
+      options.onProgress?.(offset, file.size);
+    }
+  }
+
+  // files.export has no supportsAllDrives flag, it works on shared drive
+  // files as long as the user can read them
+  async exportFile(fileId: string, exportMimeType: string): Promise<Blob> {
+    const response = await this.send<BlobPart>(
+      'exportFile',
+      fileId,
+      `/files/${fileId}/export?mimeType=${encodeURIComponent(exportMimeType)}`,
+    );
+    return new Blob([response ?? ''], { type: exportMimeType });
+  }
+
+  // Downloads a regular file, or exports a Workspace file to
+  // `exportMimeType` (defaulting to the format map)
+  async download(
+    file: DriveFileRef,
+    options: { exportMimeType?: string } = {},
+  ): Promise<DownloadedDriveFile> {
+    if (isWorkspaceFile(file.mimeType)) {
+      const exportMimeType = options.exportMimeType ?? getExportMimeType(file.mimeType);
+      return {
+        blob: await this.exportFile(file.id, exportMimeType),
+        mimeType: exportMimeType,
+        originalMimeType: file.mimeType,
+        name: file.name,
+      };
+    }
+
+    const response = await this.send<BlobPart>(
+      'download',
+      file.id,
+      `/files/${file.id}?alt=media&${ALL_DRIVES}`,
+    );
+    return {
+      blob: new Blob([response ?? ''], { type: file.mimeType }),
+      mimeType: file.mimeType,
+      originalMimeType: file.mimeType,
+      name: file.name,
+    };
+  }
+
+  private async updateFile(
+    operation: string,
+    fileId: string,
+    changes: Partial<GoogleDriveFile> & { trashed?: boolean },
+  ): Promise<GoogleDriveFile> {
+    const response = await this.send<GoogleDriveFile>(
+      operation,
+      fileId,
+      `/files/${fileId}?fields=${encodeURIComponent(DEFAULT_FILE_FIELDS)}&${ALL_DRIVES}`,
+      {
+        method: 'PATCH',
+        body: changes,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+    if (!response) {
+      throw new GoogleDriveError(`File ${fileId} not found`, operation, fileId, 404);
+    }
+    return response;
+  }
+
+  private async send<T>(
+    operation: string,
+    fileId: string | null,
+    path: string,
+    init: Partial<Parameters<ParagonRequest>[2]> = {},
+  ): Promise<T | undefined> {
+    try {
+      return await this.request<T>(GOOGLE_DRIVE_INTEGRATION, path, {
+        method: 'GET',
+        body: undefined,
+        headers: undefined,
+        ...init,
+      });
+    } catch (error) {
+      const target = fileId ? ` for ${fileId}` : '';
+      throw new GoogleDriveError(
+        `Google Drive ${operation}${target} failed${error instanceof Error ? `: ${error.message}` : ''}`,
+        operation,
+        fileId,
+        statusOf(error),
+        error,
+      );
+    }
+  }
+}
+
+export const googleDrive = new GoogleDriveClient();
+
+// Saves a blob through a temporary download link
+export function saveBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
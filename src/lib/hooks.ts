@@ -1,8 +1,48 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  InfiniteData,
+  QueryClient,
+  QueryKey,
+  useQuery,
+  useQueries,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query';
 import { paragon } from '@useparagon/connect';
-import { useState, useEffect, useRef } from 'react';
-import { ParagonService, ConfigureSyncRequest, ConfigureSyncResponse } from './paragon-service';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Artifact,
+  ParagonService,
+  ParagonServiceError,
+  isTerminalProcessingStatus,
+  ConfigureSyncRequest,
+  ConfigureSyncResponse,
+  SyncRecord,
+  SyncStatusResponse,
+} from './paragon-service';
 import { getAppConfig } from './config';
+import { getTokenManager } from './token-manager';
+import {
+  DriveChange,
+  DriveFileRef,
+  DriveSearchFilters,
+  GOOGLE_DRIVE_INTEGRATION,
+  GOOGLE_FOLDER_MIME_TYPE,
+  GoogleDriveFile,
+  GoogleDriveFileList,
+  getExportFormats,
+  getExportMimeType,
+  getPreviewExportMimeType,
+  getPreviewKind,
+  googleDrive,
+  isFolder,
+} from './google-drive-client';
+import {
+  DEFAULT_FILE_PICKER_SETTINGS,
+  FilePickerSettings,
+  loadFilePickerSettings,
+} from './file-picker-settings';
+import { FileStorageIntegration, FolderRef, getFileStorageAdapter } from './file-storage';
 import { v4 as uuidv4 } from 'uuid';
 
 export function useIntegrationMetadata() {
@@ -126,21 +166,184 @@ export interface SyncStatus {
   integration: string;
   folderId: string;
   message?: string;
+  // Why the latest status refresh failed, status keeps its last known value
+  statusError?: string;
+}
+
+// A folder or file to configure a sync for
+export interface SyncTarget {
+  id: string;
+  name: string;
+  driveId?: string;
+}
+
+export interface SyncBatchSummary {
+  created: (SyncTarget & { syncId: string })[];
+  // Targets already covered by an existing sync
+  reused: (SyncTarget & { syncId: string })[];
+  failed: (SyncTarget & { error: unknown })[];
+}
+
+interface SyncPollResult {
+  status: SyncStatus['status'];
+  message: string;
+  consecutiveErrors: number;
+  // Set when the status couldn't be fetched
+  statusError?: string;
+}
+
+const SYNC_POLL_INTERVALS = {
+  INITIALIZING: 5_000,
+  ACTIVE: 5_000,
+  IDLE: 60_000,
+};
+const ERRORED_POLL_BASE_INTERVAL = 30_000;
+const ERRORED_POLL_MAX_INTERVAL = 10 * 60_000;
+const SYNC_EVENTS_RECONNECT_BASE_DELAY = 5_000;
+const SYNC_EVENTS_RECONNECT_MAX_DELAY = 60_000;
+
+// Poll fast while a sync is running, slowly once it is idle, never while it
+// is disabled and with exponential backoff while it or fetching its status
+// keeps erroring
+function syncPollInterval({
+  status,
+  consecutiveErrors,
+  statusError,
+}: Pick<SyncPollResult, 'status' | 'consecutiveErrors' | 'statusError'>): number | false {
+  if (statusError) {
+    return Math.min(
+      ERRORED_POLL_BASE_INTERVAL * 2 ** Math.max(consecutiveErrors - 1, 0),
+      ERRORED_POLL_MAX_INTERVAL,
+    );
+  }
+
+  switch (status) {
+    case 'DISABLED':
+      return false;
+    case 'ERRORED':
+      return Math.min(
+        ERRORED_POLL_BASE_INTERVAL * 2 ** Math.max(consecutiveErrors - 1, 0),
+        ERRORED_POLL_MAX_INTERVAL,
+      );
+    default:
+      return SYNC_POLL_INTERVALS[status];
+  }
+}
+
+function formatSyncSummary(summary: SyncStatusResponse['summary']) {
+  const lastSynced = summary.lastSyncedAt
+    ? new Date(summary.lastSyncedAt).toLocaleString()
+    : 'Never';
+  return `Last synced: ${lastSynced} | Records: ${summary.syncedRecordsCount}/${summary.totalRecords}`;
+}
+
+const SYNC_REGISTRY_STORAGE_KEY = 'paragon-sync-registry';
+
+// Only sync identities are persisted. User tokens are never written to
+// storage; polling asks the token manager for a fresh one instead.
+function loadSyncRegistry(): SyncStatus[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SYNC_REGISTRY_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored
+      .filter((sync): sync is SyncStatus => typeof sync?.syncId === 'string')
+      .map(({ syncId, status, integration, folderId }) => ({
+        syncId,
+        status,
+        integration,
+        folderId,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function saveSyncRegistry(syncs: SyncStatus[]) {
+  localStorage.setItem(
+    SYNC_REGISTRY_STORAGE_KEY,
+    JSON.stringify(
+      syncs.map(({ syncId, status, integration, folderId }) => ({
+        syncId,
+        status,
+        integration,
+        folderId,
+      })),
+    ),
+  );
+}
+
+function toConfiguredSync(
+  response: ConfigureSyncResponse,
+  request: ConfigureSyncRequest,
+): SyncStatus {
+  return {
+    syncId: response.syncId,
+    status: 'INITIALIZING',
+    integration: request.integrationId,
+    folderId: request.folderId,
+    message: response.message,
+  };
+}
+
+function toSyncStatus(record: SyncRecord): SyncStatus {
+  return {
+    syncId: record.id,
+    status: record.status,
+    integration: record.integration,
+    folderId: record.configuration?.folderId ?? '',
+  };
 }
 
 export function useParagonSync() {
-  const [syncs, setSyncs] = useState<SyncStatus[]>([]);
-  const [userTokens, setUserTokens] = useState<Record<string, string>>({});
   const queryClient = useQueryClient();
-  
-  // Use refs to avoid stale closures in the polling interval
-  const syncsRef = useRef<SyncStatus[]>([]);
-  const userTokensRef = useRef<Record<string, string>>({});
-  
-  // Update refs when state changes
-  syncsRef.current = syncs;
-  userTokensRef.current = userTokens;
 
+  // The registry lives in the query cache so every page shares it, and is
+  // rehydrated from storage synchronously so nothing can write to the cache
+  // before the stored syncs are in it
+  const { data: syncs = [] } = useQuery({
+    queryKey: ['syncRegistry'],
+    queryFn: loadSyncRegistry,
+    initialData: loadSyncRegistry,
+    staleTime: Infinity,
+    cacheTime: Infinity,
+  });
+
+  const setSyncs = useCallback(
+    (update: (prev: SyncStatus[]) => SyncStatus[]) => {
+      queryClient.setQueryData<SyncStatus[]>(['syncRegistry'], (prev) => {
+        const next = update(prev ?? loadSyncRegistry());
+        saveSyncRegistry(next);
+        return next;
+      });
+    },
+    [queryClient],
+  );
+
+  // All syncs the backend knows about for this user
+  const syncList = useQuery({
+    queryKey: ['syncs'],
+    queryFn: () =>
+      getTokenManager().withToken((userToken) => ParagonService.listSyncs(userToken)),
+  });
+
+  useEffect(() => {
+    if (!syncList.data) return;
+
+    setSyncs(prev => {
+      const listed = syncList.data.map(toSyncStatus);
+      const listedIds = new Set(listed.map(sync => sync.syncId));
+      // Keep syncs configured locally that the list does not include yet
+      return [
+        ...listed.map(sync => ({
+          ...sync,
+          message: prev.find(p => p.syncId === sync.syncId)?.message,
+        })),
+        ...prev.filter(sync => !listedIds.has(sync.syncId)),
+      ];
+    });
+  }, [syncList.data, setSyncs]);
+  
   const configureSync = useMutation({
     mutationFn: async (request: ConfigureSyncRequest): Promise<ConfigureSyncResponse> => {
       const config = getAppConfig();
@@ -153,101 +356,1070 @@ export function useParagonSync() {
     },
     onSuccess: (response, request) => {
       // Add the new sync to local state
-      const newSync: SyncStatus = {
-        syncId: response.syncId,
-        status: 'INITIALIZING',
-        integration: request.integrationId,
-        folderId: request.folderId,
-        message: response.message
-      };
-      
-      setSyncs(prev => [...prev, newSync]);
-      
-      // Store user token for polling
-      setUserTokens(prev => ({
-        ...prev,
-        [response.syncId]: request.userToken
-      }));
+      setSyncs(prev => [...prev, toConfiguredSync(response, request)]);
       
       // Invalidate related queries
       queryClient.invalidateQueries({ queryKey: ['user'] });
+      queryClient.invalidateQueries({ queryKey: ['syncs'] });
     },
     onError: (error) => {
       console.error('Failed to configure sync:', error);
     }
   });
 
+  // Configures one sync per target, skipping targets an existing sync
+  // already covers. Syncs include subfolders, so Google Drive targets inside
+  // a synced folder are covered too, other providers only match the exact
+  // folder. Individual failures are reported in the summary.
+  const configureSyncs = useMutation({
+    mutationFn: async ({
+      request,
+      targets,
+    }: {
+      request: Omit<ConfigureSyncRequest, 'folderId'>;
+      targets: SyncTarget[];
+    }): Promise<SyncBatchSummary> => {
+      const config = getAppConfig();
+      if (!config.success) {
+        throw new Error('Configuration error');
+      }
+
+      const paragonService = new ParagonService(config.data.VITE_API_BASE_URL);
+      const existing = queryClient.getQueryData<SyncStatus[]>(['syncRegistry']) ?? [];
+      const summary: SyncBatchSummary = { created: [], reused: [], failed: [] };
+
+      const uniqueTargets = targets.filter(
+        (target, index) => targets.findIndex(other => other.id === target.id) === index,
+      );
+      const integrationSyncs = existing.filter(sync => sync.integration === request.integrationId);
+      const findCoveringSync = request.integrationId === GOOGLE_DRIVE_INTEGRATION
+        ? await createDriveCoveringSyncFinder(integrationSyncs)
+        : async (target: SyncTarget) => integrationSyncs.find(sync => sync.folderId === target.id);
+      const pending: SyncTarget[] = [];
+      for (const target of uniqueTargets) {
+        const covering = await findCoveringSync(target);
+        if (covering) {
+          summary.reused.push({ ...target, syncId: covering.syncId });
+        } else {
+          pending.push(target);
+        }
+      }
+
+      const results = await Promise.allSettled(
+        pending.map(target =>
+          paragonService.configureSync({
+            ...request,
+            folderId: target.id,
+            driveId: target.driveId ?? request.driveId,
+          }),
+        ),
+      );
+      const configured: SyncStatus[] = [];
+      results.forEach((result, index) => {
+        const target = pending[index];
+        if (result.status === 'fulfilled') {
+          summary.created.push({ ...target, syncId: result.value.syncId });
+          configured.push(
+            toConfiguredSync(result.value, { ...request, folderId: target.id }),
+          );
+        } else {
+          console.error(`Failed to configure sync for ${target.name}:`, result.reason);
+          summary.failed.push({ ...target, error: result.reason });
+        }
+      });
+
+      if (configured.length > 0) {
+        setSyncs(prev => [...prev, ...configured]);
+      }
+      return summary;
+    },
+    onSuccess: (summary) => {
+      if (summary.created.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ['user'] });
+        queryClient.invalidateQueries({ queryKey: ['syncs'] });
+      }
+    },
+    onError: (error) => {
+      console.error('Failed to configure syncs:', error);
+    },
+  });
+
+  const pauseSync = useMutation({
+    mutationFn: (syncId: string) =>
+      getTokenManager().withToken((userToken) => ParagonService.pauseSync(syncId, userToken)),
+    onSuccess: (response) => {
+      updateSyncStatus(response.syncId, response.status, 'Sync paused');
+      queryClient.invalidateQueries({ queryKey: ['syncs'] });
+      queryClient.invalidateQueries({ queryKey: ['syncStatus', response.syncId] });
+    },
+  });
+
+  const resumeSync = useMutation({
+    mutationFn: (syncId: string) =>
+      getTokenManager().withToken((userToken) => ParagonService.resumeSync(syncId, userToken)),
+    onSuccess: (response) => {
+      updateSyncStatus(response.syncId, response.status, 'Sync resumed');
+      queryClient.invalidateQueries({ queryKey: ['syncs'] });
+      queryClient.invalidateQueries({ queryKey: ['syncStatus', response.syncId] });
+    },
+  });
+
+  const resync = useMutation({
+    mutationFn: (syncId: string) =>
+      getTokenManager().withToken((userToken) => ParagonService.resync(syncId, userToken)),
+    onSuccess: (response) => {
+      updateSyncStatus(response.syncId, response.status, 'Re-sync started');
+      queryClient.invalidateQueries({ queryKey: ['syncs'] });
+      queryClient.invalidateQueries({ queryKey: ['syncStatus', response.syncId] });
+    },
+  });
+
+  const deleteSync = useMutation({
+    mutationFn: async (syncId: string) => {
+      await getTokenManager().withToken((userToken) => ParagonService.deleteSync(syncId, userToken));
+      return syncId;
+    },
+    onSuccess: (syncId) => {
+      setSyncs(prev => prev.filter(sync => sync.syncId !== syncId));
+      queryClient.removeQueries({ queryKey: ['syncStatus', syncId] });
+      queryClient.invalidateQueries({ queryKey: ['syncs'] });
+    },
+  });
+
+  const syncActions = [pauseSync, resumeSync, resync, deleteSync];
+
+  // Whether a lifecycle action is in flight for the given sync
+  const isUpdatingSync = (syncId: string) => {
+    return syncActions.some(action => action.isLoading && action.variables === syncId);
+  };
+
   const getSyncStatus = (syncId: string): SyncStatus | undefined => {
     return syncs.find(sync => sync.syncId === syncId);
   };
 
-  const updateSyncStatus = (syncId: string, status: SyncStatus['status'], message?: string) => {
+  const updateSyncStatus = useCallback((syncId: string, status: SyncStatus['status'], message?: string) => {
     setSyncs(prev => prev.map(sync => 
       sync.syncId === syncId 
-        ? { ...sync, status, message }
+        ? { ...sync, status, message, statusError: undefined }
         : sync
     ));
-  };
+  }, [setSyncs]);
 
-  // Poll sync status every 30 seconds
+  const [isStreamConnected, setIsStreamConnected] = useState(false);
+
+  // Push updates from the backend's sync event stream. While it is connected
+  // polling is switched off; when it drops we poll and reconnect with backoff.
   useEffect(() => {
-    const pollSyncStatus = async () => {
-      const currentSyncs = syncsRef.current;
-      const currentTokens = userTokensRef.current;
-      
-      if (currentSyncs.length === 0) return;
+    const config = getAppConfig();
+    if (!config.success) return;
+
+    const paragonService = new ParagonService(config.data.VITE_API_BASE_URL);
+    let unsubscribe: (() => void) | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let cancelled = false;
+
+    const scheduleReconnect = () => {
+      if (cancelled) return;
+      const delay = Math.min(
+        SYNC_EVENTS_RECONNECT_BASE_DELAY * 2 ** attempts,
+        SYNC_EVENTS_RECONNECT_MAX_DELAY,
+      );
+      attempts++;
+      reconnectTimer = setTimeout(connect, delay);
+    };
 
+    const connect = async () => {
       try {
-        // Poll status for all active syncs using the dedicated Paragon Sync API
-        // https://docs.useparagon.com/managed-sync/api/get-sync-status
-        const statusPromises = currentSyncs.map(async (sync) => {
-          const userToken = currentTokens[sync.syncId];
-          if (!userToken) return null;
-
-          try {
-            const statusResponse = await ParagonService.getSyncStatus(sync.syncId, userToken);
-            return {
-              syncId: sync.syncId,
-              status: statusResponse.status,
-              message: `Last synced: ${statusResponse.summary.lastSyncedAt ? new Date(statusResponse.summary.lastSyncedAt).toLocaleString() : 'Never'} | Records: ${statusResponse.summary.syncedRecordsCount}/${statusResponse.summary.totalRecords}`
-            };
-          } catch (error) {
-            console.error(`Failed to get status for sync ${sync.syncId}:`, error);
-            return {
-              syncId: sync.syncId,
-              status: 'ERRORED' as const,
-              message: 'Failed to fetch status'
-            };
-          }
-        });
+        // Reconnects pick up a fresh token in case the previous one expired
+        const userToken = await getTokenManager().getToken();
+        if (cancelled) return;
 
-        const statusUpdates = await Promise.all(statusPromises);
-        
-        // Update sync statuses
-        statusUpdates.forEach(update => {
-          if (update) {
-            updateSyncStatus(update.syncId, update.status, update.message);
-          }
-        });
+        unsubscribe = paragonService.subscribeToSyncEvents(userToken, {
+          onOpen: () => {
+            attempts = 0;
+            setIsStreamConnected(true);
+          },
+          onEvent: (event) => {
+            const tracked = queryClient
+              .getQueryData<SyncStatus[]>(['syncRegistry'])
+              ?.find(sync => sync.syncId === event.syncId);
+            if (!tracked) return;
 
+            const result: SyncPollResult = {
+              status: event.status,
+              message: event.summary ? formatSyncSummary(event.summary) : tracked.message ?? '',
+              consecutiveErrors: event.status === 'ERRORED' ? 1 : 0,
+            };
+            queryClient.setQueryData(['syncStatus', event.syncId], result);
+            updateSyncStatus(event.syncId, result.status, result.message);
+          },
+          onError: () => {
+            setIsStreamConnected(false);
+            scheduleReconnect();
+          },
+        });
       } catch (error) {
-        console.error('Error polling sync status:', error);
+        console.error('Failed to subscribe to sync events:', error);
+        scheduleReconnect();
       }
     };
 
-    // Start polling every 30 seconds
-    const interval = setInterval(pollSyncStatus, 30000);
+    connect();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(reconnectTimer);
+      unsubscribe?.();
+      setIsStreamConnected(false);
+    };
+  }, [queryClient, updateSyncStatus]);
 
-    return () => clearInterval(interval);
-  }, []); // Empty dependency array - polling runs independently
+  // One status query per tracked sync. Interval timers are paused by
+  // react-query while the document is hidden.
+  // https://docs.useparagon.com/managed-sync/api/get-sync-status
+  const statusQueries = useQueries({
+    queries: syncs.map((sync) => ({
+      queryKey: ['syncStatus', sync.syncId],
+      queryFn: async (): Promise<SyncPollResult> => {
+        const previous = queryClient.getQueryData<SyncPollResult>(['syncStatus', sync.syncId]);
+        const previousErrors = previous?.consecutiveErrors ?? 0;
+
+        try {
+          // A 401 refreshes the user token once and retries
+          const response = await getTokenManager().withToken((userToken) =>
+            ParagonService.getSyncStatus(sync.syncId, userToken),
+          );
+          return {
+            status: response.status,
+            message: formatSyncSummary(response.summary),
+            consecutiveErrors: response.status === 'ERRORED' ? previousErrors + 1 : 0,
+          };
+        } catch (error) {
+          // The sync was deleted outside the app, let onError drop it
+          if (error instanceof ParagonServiceError && error.status === 404) {
+            throw error;
+          }
+          // A failed request says nothing about the sync itself, so the last
+          // known status is kept and the failure reported next to it
+          console.error(`Failed to get status for sync ${sync.syncId}:`, error);
+          return {
+            status: previous?.status ?? sync.status,
+            message: previous?.message ?? sync.message ?? '',
+            consecutiveErrors: previousErrors + 1,
+            statusError: error instanceof Error ? error.message : 'Failed to fetch status',
+          };
+        }
+      },
+      refetchInterval: (data: SyncPollResult | undefined) =>
+        isStreamConnected
+          ? false
+          : syncPollInterval(data ?? { status: sync.status, consecutiveErrors: 0 }),
+      refetchIntervalInBackground: false,
+      refetchOnWindowFocus: true,
+      onSuccess: (data: SyncPollResult) => {
+        if (data.statusError) {
+          setSyncs(prev => prev.map(s =>
+            s.syncId === sync.syncId ? { ...s, statusError: data.statusError } : s
+          ));
+        } else {
+          updateSyncStatus(sync.syncId, data.status, data.message);
+        }
+      },
+      onError: () => {
+        setSyncs(prev => prev.filter(s => s.syncId !== sync.syncId));
+      },
+    })),
+  });
+
+  const isRefreshingStatus = statusQueries.some((query) => query.isFetching);
+
+  // Polls immediately instead of waiting for the next interval
+  const refreshSyncStatus = (syncId?: string) => {
+    return queryClient.invalidateQueries({
+      queryKey: syncId ? ['syncStatus', syncId] : ['syncStatus'],
+    });
+  };
 
   return {
     syncs,
     configureSync: configureSync.mutate,
     configureSyncAsync: configureSync.mutateAsync,
-    isConfiguring: configureSync.isLoading,
-    configureError: configureSync.error,
+    configureSyncs: configureSyncs.mutate,
+    syncBatchSummary: configureSyncs.data ?? null,
+    resetSyncBatch: configureSyncs.reset,
+    isConfiguring: configureSync.isLoading || configureSyncs.isLoading,
+    configureError: configureSync.error ?? configureSyncs.error,
     getSyncStatus,
-    updateSyncStatus
+    updateSyncStatus,
+    isLoadingSyncList: syncList.isLoading,
+    refetchSyncList: syncList.refetch,
+    pauseSync: pauseSync.mutate,
+    resumeSync: resumeSync.mutate,
+    resync: resync.mutate,
+    deleteSync: deleteSync.mutate,
+    isUpdatingSync,
+    refreshSyncStatus,
+    isRefreshingStatus,
+    isStreamConnected,
+    syncActionError: syncActions.find(action => action.error)?.error ?? null,
+  };
+}
+
+const ARTIFACT_REGISTRY_STORAGE_KEY = 'paragon-ingested-artifacts';
+const ARTIFACT_POLL_INTERVAL = 5_000;
+
+function loadArtifactRegistry(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ARTIFACT_REGISTRY_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Tracks artifacts ingested from this browser and polls their processing
+// status until it is terminal
+export function useIngestedArtifacts() {
+  const queryClient = useQueryClient();
+
+  const { data: artifactIds = [] } = useQuery({
+    queryKey: ['artifactRegistry'],
+    queryFn: loadArtifactRegistry,
+    staleTime: Infinity,
+    cacheTime: Infinity,
+  });
+
+  const setArtifactIds = useCallback(
+    (update: (prev: string[]) => string[]) => {
+      queryClient.setQueryData<string[]>(['artifactRegistry'], (prev) => {
+        const next = update(prev ?? []);
+        localStorage.setItem(ARTIFACT_REGISTRY_STORAGE_KEY, JSON.stringify(next));
+        return next;
+      });
+    },
+    [queryClient],
+  );
+
+  const artifactQueries = useQueries({
+    queries: artifactIds.map((artifactId) => ({
+      queryKey: ['artifact', artifactId],
+      queryFn: () => {
+        const config = getAppConfig();
+        if (!config.success) {
+          throw new Error('Configuration error');
+        }
+
+        const paragonService = new ParagonService(config.data.VITE_API_BASE_URL);
+        return paragonService.getArtifact(artifactId);
+      },
+      refetchInterval: (artifact: Artifact | undefined) =>
+        artifact && isTerminalProcessingStatus(artifact.processingStatus)
+          ? false
+          : ARTIFACT_POLL_INTERVAL,
+      onError: (error: unknown) => {
+        // The backend no longer knows the artifact, stop tracking it
+        if (error instanceof ParagonServiceError && error.status === 404) {
+          setArtifactIds(prev => prev.filter(id => id !== artifactId));
+        }
+      },
+    })),
+  });
+
+  const trackArtifact = useCallback(
+    (artifactId: string) => {
+      setArtifactIds(prev => (prev.includes(artifactId) ? prev : [artifactId, ...prev]));
+    },
+    [setArtifactIds],
+  );
+
+  const untrackArtifact = useCallback(
+    (artifactId: string) => {
+      setArtifactIds(prev => prev.filter(id => id !== artifactId));
+      queryClient.removeQueries({ queryKey: ['artifact', artifactId] });
+    },
+    [queryClient, setArtifactIds],
+  );
+
+  return {
+    artifacts: artifactIds.map((artifactId, index) => ({
+      artifactId,
+      artifact: artifactQueries[index]?.data,
+      isLoading: artifactQueries[index]?.isLoading ?? true,
+      error: artifactQueries[index]?.error ?? null,
+    })),
+    trackArtifact,
+    untrackArtifact,
+  };
+}
+
+const EXPORT_FORMATS_STORAGE_KEY = 'paragon-export-formats';
+
+// Default export format per Workspace mime type, stored per workspace. Values
+// that are no longer valid export options are dropped.
+function loadExportFormatDefaults(workspaceId: string): Record<string, string> {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(`${EXPORT_FORMATS_STORAGE_KEY}:${workspaceId}`) ?? '{}',
+    );
+    if (!stored || typeof stored !== 'object') return {};
+
+    return Object.fromEntries(
+      Object.entries(stored).filter(
+        (entry): entry is [string, string] =>
+          typeof entry[1] === 'string' &&
+          getExportFormats(entry[0]).some(format => format.mimeType === entry[1]),
+      ),
+    );
+  } catch {
+    return {};
+  }
+}
+
+export function useExportFormatDefaults() {
+  const queryClient = useQueryClient();
+  const { workspaceId } = useUserContext();
+
+  const { data: exportFormats = {} } = useQuery({
+    queryKey: ['exportFormatDefaults', workspaceId],
+    queryFn: () => loadExportFormatDefaults(workspaceId),
+    staleTime: Infinity,
+    cacheTime: Infinity,
+  });
+
+  const setExportFormat = useCallback(
+    (mimeType: string, exportMimeType: string) => {
+      queryClient.setQueryData<Record<string, string>>(
+        ['exportFormatDefaults', workspaceId],
+        (prev) => {
+          const next = { ...prev, [mimeType]: exportMimeType };
+          localStorage.setItem(
+            `${EXPORT_FORMATS_STORAGE_KEY}:${workspaceId}`,
+            JSON.stringify(next),
+          );
+          return next;
+        },
+      );
+    },
+    [queryClient, workspaceId],
+  );
+
+  // A per-file choice wins over the workspace default
+  const resolveExportMimeType = useCallback(
+    (mimeType: string, override?: string) =>
+      override ?? getExportMimeType(mimeType, exportFormats),
+    [exportFormats],
+  );
+
+  return { exportFormats, setExportFormat, resolveExportMimeType };
+}
+
+const DRIVE_FOLDER_PAGE_SIZE = 100;
+
+// Children of a Google Drive folder, loaded a page at a time. Visited folders
+// stay cached so navigating back does not refetch them.
+// Folder IDs are unique across drives, so `driveId` only scopes the request.
+export function useDriveFolder(
+  folderId: string,
+  options: { enabled?: boolean; driveId?: string } = {},
+) {
+  return useInfiniteQuery({
+    queryKey: ['driveFolder', folderId],
+    queryFn: ({ pageParam }: { pageParam?: string }) =>
+      googleDrive.listFolder(folderId, {
+        pageSize: DRIVE_FOLDER_PAGE_SIZE,
+        pageToken: pageParam,
+        driveId: options.driveId,
+      }),
+    getNextPageParam: (lastPage) => lastPage.nextPageToken,
+    enabled: options.enabled ?? true,
+    staleTime: 5 * 60_000,
+    cacheTime: 30 * 60_000,
+  });
+}
+
+// Files across a drive matching `filters`, a page at a time. Searches My
+// Drive and shared-with-me files unless `driveId` names a shared drive.
+// Disabled while there are no filters.
+export function useDriveSearch(filters: DriveSearchFilters | null, driveId?: string) {
+  return useInfiniteQuery({
+    queryKey: ['driveSearch', filters, driveId],
+    queryFn: ({ pageParam }: { pageParam?: string }) =>
+      googleDrive.search(filters ?? {}, {
+        pageSize: DRIVE_FOLDER_PAGE_SIZE,
+        pageToken: pageParam,
+        driveId,
+      }),
+    getNextPageParam: (lastPage) => lastPage.nextPageToken,
+    enabled: filters !== null,
+    staleTime: 60_000,
+  });
+}
+
+// A folder of any file storage provider, a page at a time. Backs the
+// browser used when the provider has no native picker.
+export function useFileStorageFolder(
+  integration: FileStorageIntegration,
+  folder: FolderRef,
+  options: { enabled?: boolean } = {},
+) {
+  return useInfiniteQuery({
+    queryKey: ['fileStorageFolder', integration, folder?.id ?? null],
+    queryFn: ({ pageParam }: { pageParam?: string }) =>
+      getFileStorageAdapter(integration).listFolder(folder, pageParam),
+    getNextPageParam: (lastPage) => lastPage.cursor,
+    enabled: options.enabled ?? true,
+    staleTime: 5 * 60_000,
+  });
+}
+
+type DriveListing = InfiniteData<GoogleDriveFileList>;
+type DriveListingSnapshot = [QueryKey, DriveListing | undefined][];
+
+const DRIVE_LISTING_KEYS = [['driveFolder'], ['driveSearch']];
+
+// ID prefix of folders shown optimistically before Drive has created them
+export const PENDING_FILE_ID_PREFIX = 'pending-';
+
+// Applies `update` to every cached page of folder listings and search results
+function updateDriveListings(
+  queryClient: QueryClient,
+  update: (files: GoogleDriveFile[]) => GoogleDriveFile[],
+  queryKey?: QueryKey,
+) {
+  for (const key of queryKey ? [queryKey] : DRIVE_LISTING_KEYS) {
+    queryClient.setQueriesData<DriveListing>(key, (listing) =>
+      listing && {
+        ...listing,
+        pages: listing.pages.map((page) => ({ ...page, files: update(page.files) })),
+      },
+    );
+  }
+}
+
+// Adds a file to the top of a cached folder listing
+function prependToDriveFolder(queryClient: QueryClient, folderId: string, file: GoogleDriveFile) {
+  queryClient.setQueryData<DriveListing>(['driveFolder', folderId], (listing) =>
+    listing && {
+      ...listing,
+      pages: listing.pages.map((page, index) =>
+        index === 0 ? { ...page, files: [file, ...page.files] } : page,
+      ),
+    },
+  );
+}
+
+async function snapshotDriveListings(queryClient: QueryClient) {
+  const snapshot: DriveListingSnapshot = [];
+  for (const key of DRIVE_LISTING_KEYS) {
+    await queryClient.cancelQueries({ queryKey: key });
+    snapshot.push(...queryClient.getQueriesData<DriveListing>(key));
+  }
+  return snapshot;
+}
+
+function restoreDriveListings(queryClient: QueryClient, snapshot?: DriveListingSnapshot) {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+}
+
+// Rename, trash and create-folder for Google Drive files. Cached listings are
+// updated straight away and restored if the Drive call fails.
+export function useDriveFileMutations() {
+  const queryClient = useQueryClient();
+
+  const refetchListings = () => {
+    DRIVE_LISTING_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+  };
+
+  const renameFile = useMutation({
+    mutationFn: ({ fileId, name }: { fileId: string; name: string }) =>
+      googleDrive.renameFile(fileId, name),
+    onMutate: async ({ fileId, name }) => {
+      const snapshot = await snapshotDriveListings(queryClient);
+      updateDriveListings(queryClient, (files) =>
+        files.map((file) => (file.id === fileId ? { ...file, name } : file)),
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      restoreDriveListings(queryClient, context?.snapshot);
+    },
+    onSettled: refetchListings,
+  });
+
+  const trashFile = useMutation({
+    mutationFn: (fileId: string) => googleDrive.trashFile(fileId),
+    onMutate: async (fileId) => {
+      const snapshot = await snapshotDriveListings(queryClient);
+      updateDriveListings(queryClient, (files) => files.filter((file) => file.id !== fileId));
+      return { snapshot };
+    },
+    onError: (_error, _fileId, context) => {
+      restoreDriveListings(queryClient, context?.snapshot);
+    },
+    onSettled: refetchListings,
+  });
+
+  const createFolder = useMutation({
+    mutationFn: ({ name, parentId }: { name: string; parentId: string }) =>
+      googleDrive.createFolder(name, parentId),
+    onMutate: async ({ name, parentId }) => {
+      const snapshot = await snapshotDriveListings(queryClient);
+      // Shown in the parent until Drive returns the real folder
+      const placeholder: GoogleDriveFile = {
+        id: `${PENDING_FILE_ID_PREFIX}${uuidv4()}`,
+        name,
+        mimeType: GOOGLE_FOLDER_MIME_TYPE,
+        parents: [parentId],
+      };
+      prependToDriveFolder(queryClient, parentId, placeholder);
+      return { snapshot, placeholderId: placeholder.id };
+    },
+    onSuccess: (folder, { parentId }, context) => {
+      updateDriveListings(
+        queryClient,
+        (files) => files.map((file) => (file.id === context?.placeholderId ? folder : file)),
+        ['driveFolder', parentId],
+      );
+    },
+    onError: (_error, _variables, context) => {
+      restoreDriveListings(queryClient, context?.snapshot);
+    },
+    onSettled: (_folder, _error, { parentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['driveFolder', parentId] });
+    },
+  });
+
+  return {
+    renameFile: renameFile.mutateAsync,
+    trashFile: trashFile.mutateAsync,
+    createFolder: createFolder.mutateAsync,
+    isMutating: renameFile.isLoading || trashFile.isLoading || createFolder.isLoading,
+  };
+}
+
+export type DriveUploadStatus = 'uploading' | 'uploaded' | 'failed';
+
+export interface DriveUpload {
+  id: string;
+  name: string;
+  size: number;
+  parentId: string;
+  status: DriveUploadStatus;
+  // Bytes sent so far
+  loaded: number;
+  error?: string;
+}
+
+// Uploads local files into Drive folders through resumable sessions. Uploaded
+// files are added to the cached folder listing so they show up without
+// reloading the folder.
+export function useDriveUploads() {
+  const queryClient = useQueryClient();
+  const { userId } = useUserContext();
+  const [uploads, setUploads] = useState<DriveUpload[]>([]);
+
+  const updateUpload = useCallback((id: string, update: Partial<DriveUpload>) => {
+    setUploads(prev => prev.map(upload => (upload.id === id ? { ...upload, ...update } : upload)));
+  }, []);
+
+  const uploadFile = useCallback(
+    async (file: File, parentId: string) => {
+      const id = uuidv4();
+      setUploads(prev => [
+        ...prev,
+        { id, name: file.name, size: file.size, parentId, status: 'uploading', loaded: 0 },
+      ]);
+
+      try {
+        const config = getAppConfig();
+        if (!config.success) {
+          throw new Error('Configuration error: Unable to get app config');
+        }
+
+        const session = await new ParagonService(config.data.VITE_API_BASE_URL).startDriveUpload({
+          userId: userId || config.data.VITE_PARAGON_USER_ID,
+          name: file.name,
+          mimeType: file.type || 'application/octet-stream',
+          size: file.size,
+          parentId,
+          origin: window.location.origin,
+        });
+        const uploaded = await googleDrive.uploadFile(file, session.uploadUrl, {
+          onProgress: (loaded) => updateUpload(id, { loaded }),
+        });
+        prependToDriveFolder(queryClient, parentId, uploaded);
+        updateUpload(id, { status: 'uploaded' });
+      } catch (error) {
+        console.error(`Failed to upload ${file.name}:`, error);
+        updateUpload(id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Upload failed',
+        });
+      }
+    },
+    [queryClient, updateUpload, userId],
+  );
+
+  const uploadFiles = useCallback(
+    (files: File[], parentId: string) => {
+      files.forEach(file => uploadFile(file, parentId));
+    },
+    [uploadFile],
+  );
+
+  const clearFinished = useCallback(() => {
+    setUploads(prev => prev.filter(upload => upload.status === 'uploading'));
+  }, []);
+
+  return {
+    uploads,
+    uploadFiles,
+    clearFinished,
+    isUploading: uploads.some(upload => upload.status === 'uploading'),
+  };
+}
+
+const FILE_PICKER_SETTINGS_STORAGE_KEY = 'paragon-file-picker-settings';
+
+// External file picker options, stored per user
+export function useFilePickerSettings() {
+  const queryClient = useQueryClient();
+  const { userId } = useUserContext();
+  const storageKey = `${FILE_PICKER_SETTINGS_STORAGE_KEY}:${userId || 'anonymous'}`;
+
+  const { data: settings = DEFAULT_FILE_PICKER_SETTINGS } = useQuery({
+    queryKey: ['filePickerSettings', userId],
+    queryFn: () => {
+      try {
+        return loadFilePickerSettings(JSON.parse(localStorage.getItem(storageKey) ?? 'null'));
+      } catch {
+        return DEFAULT_FILE_PICKER_SETTINGS;
+      }
+    },
+    staleTime: Infinity,
+    cacheTime: Infinity,
+  });
+
+  const updateSettings = useCallback(
+    (update: Partial<FilePickerSettings>) => {
+      queryClient.setQueryData<FilePickerSettings>(['filePickerSettings', userId], (prev) => {
+        const next = { ...(prev ?? DEFAULT_FILE_PICKER_SETTINGS), ...update };
+        localStorage.setItem(storageKey, JSON.stringify(next));
+        return next;
+      });
+    },
+    [queryClient, userId, storageKey],
+  );
+
+  return { settings, updateSettings };
+}
+
+export function useSharedDrives(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['sharedDrives'],
+    queryFn: () => googleDrive.listDrives(),
+    enabled: options.enabled ?? true,
+    staleTime: 5 * 60_000,
+  });
+}
+
+// Downloads a file for the preview drawer, exporting Workspace files to a
+// format the browser can show. Text content is read up front.
+export function useDrivePreview(file: DriveFileRef | null, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['drivePreview', file?.id],
+    queryFn: async () => {
+      const downloaded = await googleDrive.download(file!, {
+        exportMimeType: getPreviewExportMimeType(file!.mimeType),
+      });
+      const kind = getPreviewKind(downloaded.mimeType);
+      const text =
+        kind === 'text' || kind === 'csv' ? await downloaded.blob.text() : undefined;
+      return { downloaded, kind, text };
+    },
+    enabled: file !== null && (options.enabled ?? true),
+    // Keep blobs around briefly so reopening a preview is instant
+    cacheTime: 60_000,
+    staleTime: 60_000,
+  });
+}
+
+// Extended metadata for the details drawer. Each part is its own query so
+// that, e.g., revisions the user can't read don't hide the rest. Folders
+// have no revisions.
+export function useDriveFileDetails(file: DriveFileRef | null) {
+  const fileId = file?.id ?? null;
+  const enabled = fileId !== null;
+
+  const details = useQuery({
+    queryKey: ['driveFileDetails', fileId],
+    queryFn: async () => {
+      const file = await googleDrive.getFileDetails(fileId!);
+      return { file, path: await googleDrive.getPath(file) };
+    },
+    enabled,
+    staleTime: 60_000,
+  });
+
+  const permissions = useQuery({
+    queryKey: ['drivePermissions', fileId],
+    queryFn: () => googleDrive.listPermissions(fileId!),
+    enabled,
+    staleTime: 60_000,
+  });
+
+  const revisions = useQuery({
+    queryKey: ['driveRevisions', fileId],
+    // Newest first
+    queryFn: async () => (await googleDrive.listRevisions(fileId!)).reverse(),
+    enabled: enabled && !isFolder(file!.mimeType),
+    staleTime: 60_000,
+  });
+
+  return { details, permissions, revisions };
+}
+
+export type DriveChangeKind = 'added' | 'modified' | 'removed';
+
+export interface DriveChangeEntry {
+  fileId: string;
+  name: string;
+  mimeType?: string;
+  kind: DriveChangeKind;
+  time: string;
+  // Tracked folder the file is in
+  folderId?: string;
+}
+
+interface DriveChangeFeed {
+  // Where the next poll starts, null until the feed is started
+  pageToken: string | null;
+  // When the feed was started, files created later count as added
+  trackedSince: string | null;
+  // Drive time of the newest change seen, files created after it are new
+  lastChangeTime: string | null;
+  // Newest first
+  entries: DriveChangeEntry[];
+}
+
+const DRIVE_CHANGES_STORAGE_KEY = 'paragon-drive-changes';
+const DRIVE_CHANGES_POLL_INTERVAL = 60_000;
+const MAX_DRIVE_CHANGE_ENTRIES = 100;
+const MAX_DRIVE_CHANGE_PAGES = 10;
+// Stop looking for a tracked folder after this many levels up
+const MAX_DRIVE_ANCESTOR_DEPTH = 20;
+const EMPTY_DRIVE_CHANGE_FEED: DriveChangeFeed = {
+  pageToken: null,
+  trackedSince: null,
+  lastChangeTime: null,
+  entries: [],
+};
+
+function loadDriveChangeFeed(storageKey: string): DriveChangeFeed {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey) ?? 'null');
+    if (!stored || typeof stored.pageToken !== 'string') return EMPTY_DRIVE_CHANGE_FEED;
+
+    return {
+      pageToken: stored.pageToken,
+      trackedSince: typeof stored.trackedSince === 'string' ? stored.trackedSince : null,
+      lastChangeTime: typeof stored.lastChangeTime === 'string' ? stored.lastChangeTime : null,
+      entries: Array.isArray(stored.entries) ? stored.entries : [],
+    };
+  } catch {
+    return EMPTY_DRIVE_CHANGE_FEED;
+  }
+}
+
+function saveDriveChangeFeed(storageKey: string, feed: DriveChangeFeed) {
+  localStorage.setItem(storageKey, JSON.stringify(feed));
+}
+
+// Syncs include subfolders, so a file belongs to the nearest tracked folder
+// above it. Folder parents are looked up once per poll.
+function createTrackedFolderResolver(folderIds: Set<string>) {
+  const folderParents = new Map<string, Promise<string[]>>();
+  const getParents = (folderId: string) => {
+    if (!folderParents.has(folderId)) {
+      folderParents.set(
+        folderId,
+        googleDrive.getFile(folderId, 'id,parents').then(
+          (folder) => folder.parents ?? [],
+          // Folders the user can't read end the walk
+          () => [],
+        ),
+      );
+    }
+    return folderParents.get(folderId)!;
+  };
+
+  return async (parents: string[] = []): Promise<string | undefined> => {
+    const seen = new Set<string>();
+    let level = parents;
+    for (let depth = 0; level.length > 0 && depth < MAX_DRIVE_ANCESTOR_DEPTH; depth++) {
+      const tracked = level.find((parent) => folderIds.has(parent));
+      if (tracked) return tracked;
+
+      level.forEach((parent) => seen.add(parent));
+      const above = await Promise.all(level.map(getParents));
+      level = [...new Set(above.flat())].filter((parent) => !seen.has(parent));
+    }
+    return undefined;
+  };
+}
+
+// Files list the real ID of My Drive as their parent, never `root`
+async function withDriveRootId(folderIds: Iterable<string>) {
+  const resolved = new Set(folderIds);
+  if (resolved.has('root')) {
+    resolved.add((await googleDrive.getFile('root', 'id')).id);
+  }
+  return resolved;
+}
+
+// Finds the sync on a Drive target itself or on the nearest folder above it
+async function createDriveCoveringSyncFinder(syncs: SyncStatus[]) {
+  if (syncs.length === 0) return async () => undefined;
+
+  const folderIds = await withDriveRootId(syncs.map(sync => sync.folderId));
+  const rootSync = syncs.find(sync => sync.folderId === 'root');
+  const findTrackedFolder = createTrackedFolderResolver(folderIds);
+  const bySyncedFolder = (folderId: string) =>
+    syncs.find(sync => sync.folderId === folderId) ?? rootSync;
+
+  return async (target: SyncTarget) => {
+    if (folderIds.has(target.id)) return bySyncedFolder(target.id);
+
+    const file = await googleDrive.getFile(target.id, 'id,parents').catch(() => null);
+    const folderId = await findTrackedFolder(file?.parents);
+    return folderId ? bySyncedFolder(folderId) : undefined;
+  };
+}
+
+async function toDriveChangeEntry(
+  change: DriveChange,
+  findTrackedFolder: (parents?: string[]) => Promise<string | undefined>,
+  knownFiles: Map<string, DriveChangeEntry>,
+  createdAfter: string | null,
+): Promise<DriveChangeEntry | null> {
+  if (change.changeType !== 'file' || !change.fileId) return null;
+
+  const file = change.file;
+  const known = knownFiles.get(change.fileId);
+  const currentFolderId = await findTrackedFolder(file?.parents);
+  const folderId = currentFolderId ?? known?.folderId;
+  if (!folderId) return null;
+
+  const base = {
+    fileId: change.fileId,
+    name: file?.name ?? known?.name ?? change.fileId,
+    mimeType: file?.mimeType ?? known?.mimeType,
+    time: change.time,
+    folderId,
+  };
+  // Files moved out of every tracked folder are gone as far as the sync is concerned
+  if (change.removed || file?.trashed || !currentFolderId) {
+    return { ...base, kind: 'removed' };
+  }
+
+  // Only the first change after a file was created is an addition, later
+  // edits to it are modifications
+  const isNew = Boolean(createdAfter && file?.createdTime && file.createdTime > createdAfter);
+  return { ...base, kind: isNew ? 'added' : 'modified' };
+}
+
+async function fetchDriveChanges(
+  storageKey: string,
+  folderIds: string[],
+): Promise<DriveChangeFeed> {
+  const feed = loadDriveChangeFeed(storageKey);
+  if (!feed.pageToken) {
+    const started: DriveChangeFeed = {
+      pageToken: await googleDrive.getStartPageToken(),
+      trackedSince: new Date().toISOString(),
+      lastChangeTime: null,
+      entries: [],
+    };
+    saveDriveChangeFeed(storageKey, started);
+    return started;
+  }
+
+  const tracked = await withDriveRootId(folderIds);
+  const findTrackedFolder = createTrackedFolderResolver(tracked);
+  const createdAfter = feed.lastChangeTime ?? feed.trackedSince;
+  const knownFiles = new Map(feed.entries.map(entry => [entry.fileId, entry]));
+  const entries: DriveChangeEntry[] = [];
+  let pageToken = feed.pageToken;
+  let lastChangeTime = feed.lastChangeTime;
+
+  for (let page = 0; page < MAX_DRIVE_CHANGE_PAGES; page++) {
+    const list = await googleDrive.listChanges(pageToken);
+    for (const change of list.changes) {
+      if (!lastChangeTime || change.time > lastChangeTime) {
+        lastChangeTime = change.time;
+      }
+      const entry = await toDriveChangeEntry(change, findTrackedFolder, knownFiles, createdAfter);
+      if (entry) {
+        entries.push(entry);
+        knownFiles.set(entry.fileId, entry);
+      }
+    }
+
+    if (list.newStartPageToken) {
+      pageToken = list.newStartPageToken;
+      break;
+    }
+    if (!list.nextPageToken) break;
+    // Anything left over is picked up by the next poll
+    pageToken = list.nextPageToken;
+  }
+
+  const next: DriveChangeFeed = {
+    ...feed,
+    pageToken,
+    lastChangeTime,
+    entries: [...entries.reverse(), ...feed.entries].slice(0, MAX_DRIVE_CHANGE_ENTRIES),
+  };
+  saveDriveChangeFeed(storageKey, next);
+  return next;
+}
+
+// Polls the Drive changes feed for files added, modified or removed in the
+// given folders and their subfolders. The page token is stored per user and
+// Drive account so changes made while the app was closed show up on the next
+// visit.
+export function useDriveChanges(folderIds: string[]) {
+  const queryClient = useQueryClient();
+  const { data: user } = useAuthenticatedUser();
+  const credentialId = user?.integrations[GOOGLE_DRIVE_INTEGRATION]?.credentialId;
+  const storageKey =
+    `${DRIVE_CHANGES_STORAGE_KEY}:${user?.userId || 'anonymous'}:${credentialId ?? 'default'}`;
+
+  const changes = useQuery({
+    queryKey: ['driveChanges', storageKey],
+    queryFn: () => fetchDriveChanges(storageKey, folderIds),
+    enabled: folderIds.length > 0 && Boolean(user),
+    initialData: () => loadDriveChangeFeed(storageKey),
+    // Treat stored entries as stale so they are refreshed straight away
+    initialDataUpdatedAt: 0,
+    refetchInterval: DRIVE_CHANGES_POLL_INTERVAL,
+    refetchIntervalInBackground: false,
+  });
+
+  // Forgets stored entries and starts again from now
+  const resetChanges = useCallback(() => {
+    localStorage.removeItem(storageKey);
+    queryClient.setQueryData(['driveChanges', storageKey], EMPTY_DRIVE_CHANGE_FEED);
+    queryClient.invalidateQueries({ queryKey: ['driveChanges', storageKey] });
+  }, [queryClient, storageKey]);
+
+  return {
+    entries: changes.data.entries,
+    isTracking: changes.data.pageToken !== null,
+    isChecking: changes.isFetching,
+    error: changes.error,
+    checkNow: changes.refetch,
+    resetChanges,
   };
 }
@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { IngestFileResponse, ParagonServiceError } from './paragon-service';
+
+export type IngestionStatus =
+  | 'queued'
+  | 'downloading'
+  | 'uploading'
+  | 'ingested'
+  | 'failed';
+
+export interface IngestionItem {
+  id: string;
+  name: string;
+  status: IngestionStatus;
+  // Upload progress from 0 to 100
+  progress: number;
+  attempts: number;
+  error?: string;
+  result?: IngestFileResponse;
+}
+
+export interface IngestionTaskContext {
+  signal: AbortSignal;
+  setStatus: (status: 'downloading' | 'uploading') => void;
+  setProgress: (progress: number) => void;
+}
+
+export type IngestionTask = (
+  context: IngestionTaskContext,
+) => Promise<IngestFileResponse>;
+
+interface IngestionQueueOptions {
+  // How many files are downloaded and uploaded at the same time
+  concurrency?: number;
+  // Attempts per file before a transient failure is reported as failed. The
+  // queue is the only layer that retries a whole file, tasks don't retry it
+  // themselves (chunk uploads still retry their own chunk).
+  maxAttempts?: number;
+}
+
+const ACTIVE_STATUSES: IngestionStatus[] = ['downloading', 'uploading'];
+
+// Backend failures say whether they are worth retrying; anything else (e.g.
+// a Drive download error) gets the benefit of the doubt.
+function isTransientFailure(error: unknown) {
+  return error instanceof ParagonServiceError ? error.retryable : true;
+}
+
+export function useIngestionQueue({
+  concurrency = 3,
+  maxAttempts = 2,
+}: IngestionQueueOptions = {}) {
+  const [items, setItems] = useState<IngestionItem[]>([]);
+  const tasks = useRef(new Map<string, IngestionTask>());
+  const controllers = useRef(new Map<string, AbortController>());
+  const running = useRef(new Set<string>());
+
+  const updateItem = useCallback(
+    (id: string, update: Partial<IngestionItem>) => {
+      setItems((prev) =>
+        prev.map((item) => (item.id === id ? { ...item, ...update } : item)),
+      );
+    },
+    [],
+  );
+
+  const run = useCallback(
+    async (item: IngestionItem) => {
+      const task = tasks.current.get(item.id);
+      if (!task) return;
+
+      const controller = new AbortController();
+      const attempts = item.attempts + 1;
+      controllers.current.set(item.id, controller);
+      running.current.add(item.id);
+      updateItem(item.id, {
+        status: 'downloading',
+        progress: 0,
+        attempts,
+        error: undefined,
+      });
+
+      try {
+        const result = await task({
+          signal: controller.signal,
+          setStatus: (status) => updateItem(item.id, { status }),
+          setProgress: (progress) => updateItem(item.id, { progress }),
+        });
+        updateItem(item.id, { status: 'ingested', progress: 100, result });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          updateItem(item.id, { status: 'failed', error: 'Cancelled' });
+        } else if (isTransientFailure(error) && attempts < maxAttempts) {
+          console.warn(`Retrying ingestion of ${item.name}:`, error);
+          updateItem(item.id, { status: 'queued', progress: 0 });
+        } else {
+          console.error(`Failed to ingest ${item.name}:`, error);
+          updateItem(item.id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Ingestion failed',
+          });
+        }
+      } finally {
+        running.current.delete(item.id);
+        controllers.current.delete(item.id);
+      }
+    },
+    [maxAttempts, updateItem],
+  );
+
+  // Files still in flight are abandoned along with the queue
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach((controller) => controller.abort());
+  }, []);
+
+  // Start queued items while there are free slots
+  useEffect(() => {
+    const freeSlots = concurrency - running.current.size;
+    if (freeSlots <= 0) return;
+
+    items
+      .filter(
+        (item) => item.status === 'queued' && !running.current.has(item.id),
+      )
+      .slice(0, freeSlots)
+      .forEach((item) => {
+        run(item);
+      });
+  }, [items, concurrency, run]);
+
+  // Adds a file to the queue. Files that are already queued or in flight
+  // are left alone; finished ones are queued again.
+  const enqueue = useCallback(
+    (id: string, name: string, task: IngestionTask) => {
+      tasks.current.set(id, task);
+      setItems((prev) => {
+        const existing = prev.find((item) => item.id === id);
+        if (!existing) {
+          return [
+            ...prev,
+            { id, name, status: 'queued', progress: 0, attempts: 0 },
+          ];
+        }
+        if (existing.status === 'queued' || ACTIVE_STATUSES.includes(existing.status)) {
+          return prev;
+        }
+        return prev.map((item) =>
+          item.id === id
+            ? { ...item, status: 'queued', progress: 0, attempts: 0, error: undefined }
+            : item,
+        );
+      });
+    },
+    [],
+  );
+
+  const cancel = useCallback(
+    (id: string) => {
+      const controller = controllers.current.get(id);
+      if (controller) {
+        controller.abort();
+        return;
+      }
+      updateItem(id, { status: 'failed', error: 'Cancelled' });
+    },
+    [updateItem],
+  );
+
+  const retryFailed = useCallback(() => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.status === 'failed'
+          ? { ...item, status: 'queued', progress: 0, attempts: 0, error: undefined }
+          : item,
+      ),
+    );
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems((prev) =>
+      prev.filter((item) => {
+        const finished = item.status === 'ingested' || item.status === 'failed';
+        if (finished) tasks.current.delete(item.id);
+        return !finished;
+      }),
+    );
+  }, []);
+
+  return {
+    items,
+    enqueue,
+    cancel,
+    retryFailed,
+    clearFinished,
+    getItem: (id: string) => items.find((item) => item.id === id),
+    isRunning: items.some(
+      (item) => item.status === 'queued' || ACTIVE_STATUSES.includes(item.status),
+    ),
+  };
+}
@@ -1,8 +1,21 @@
+import { getAppConfig } from './config';
+import {
+  fetchWithRetry,
+  uploadWithProgress,
+  withRetry,
+  ParagonServiceError,
+  type RequestOptions,
+} from './request';
+
+export { ParagonServiceError } from './request';
+
 export interface ConfigureSyncRequest {
   workspaceId: string;
   userId: string;
   integrationId: string;
   folderId: string;
+  // Shared drive that contains folderId, if any
+  driveId?: string;
   webhookUrl: string;
   userToken: string;
 }
@@ -23,10 +36,107 @@ export interface SyncStatusResponse {
   };
 }
 
+export type SyncState = SyncStatusResponse['status'];
+
+export interface SyncRecord {
+  id: string;
+  integration: string;
+  status: SyncState;
+  configuration?: {
+    folderId?: string;
+    [key: string]: unknown;
+  };
+  summary?: SyncStatusResponse['summary'];
+}
+
+export interface ListSyncsResponse {
+  data: SyncRecord[];
+}
+
+export interface SyncActionResponse {
+  syncId: string;
+  status: SyncState;
+}
+
+export type ArtifactProcessingStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+export interface Artifact {
+  artifactId: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  processingStatus: ArtifactProcessingStatus;
+  createdAt: string;
+  tags: string[];
+  metadata: Record<string, string | number | boolean>;
+}
+
+// User-facing explanation of a failed sync request
+export function describeSyncError(error: Error) {
+  if (!(error instanceof ParagonServiceError)) {
+    return error.message;
+  }
+  if (error.isNetworkError) {
+    return 'The backend could not be reached. Check that it is running and try again.';
+  }
+  if (error.isUnauthorized) {
+    return 'Your session has expired. Reload the page to sign in again.';
+  }
+  if (error.status === 409) {
+    return `This folder is already being synced. ${error.detail}`;
+  }
+  return error.retryable
+    ? `${error.detail} (temporary failure, try again shortly)`
+    : error.detail;
+}
+
+export function isTerminalProcessingStatus(status: string) {
+  return status === 'COMPLETED' || status === 'FAILED';
+}
+
+export interface IngestProgress {
+  loaded: number;
+  total: number;
+}
+
+interface IngestUploadSession {
+  uploadId: string;
+  chunkSize: number;
+  uploadedParts: number[];
+}
+
+export interface SyncEvent {
+  syncId: string;
+  status: SyncState;
+  summary?: SyncStatusResponse['summary'];
+}
+
+export interface SyncEventHandlers {
+  onEvent: (event: SyncEvent) => void;
+  onOpen?: () => void;
+  // Called when the stream drops; the subscription is closed at that point
+  onError?: (error: Event) => void;
+}
+
 export interface GenerateTokenResponse {
   token: string;
 }
 
+export interface StartDriveUploadRequest {
+  userId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  parentId: string;
+  // Page origin, Drive only accepts chunks from the origin the session names
+  origin: string;
+}
+
+export interface DriveUploadSession {
+  // Resumable session URL, it authenticates the upload on its own
+  uploadUrl: string;
+}
+
 export interface IngestFileRequest {
   workspaceId: string;
   userId: string;
@@ -45,116 +155,389 @@ export interface IngestFileResponse {
   createdAt: string;
 }
 
+export type ParagonServiceRequestOptions = Pick<
+  RequestOptions,
+  'signal' | 'timeout' | 'retries'
+>;
+
+export type IngestFileOptions = ParagonServiceRequestOptions & {
+  onProgress?: (progress: IngestProgress) => void;
+};
+
+// Files above this size are uploaded in resumable chunks
+export const CHUNKED_INGEST_THRESHOLD = 8 * 1024 * 1024;
+
+const INGEST_UPLOADS_STORAGE_KEY = 'paragon-ingest-uploads';
+
+// Identifies the same source file across attempts so an interrupted chunked
+// upload can be resumed, even when the File object was recreated.
+function ingestUploadKey(file: File, request: IngestFileRequest) {
+  const sourceId = request.metadata?.originalId ?? file.name;
+  return `${request.workspaceId}:${sourceId}:${file.size}`;
+}
+
+function readIngestUploads(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(INGEST_UPLOADS_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function rememberIngestUpload(key: string, uploadId: string | null) {
+  const uploads = readIngestUploads();
+  if (uploadId) {
+    uploads[key] = uploadId;
+  } else {
+    delete uploads[key];
+  }
+  localStorage.setItem(INGEST_UPLOADS_STORAGE_KEY, JSON.stringify(uploads));
+}
+
 export class ParagonService {
   constructor(private baseUrl: string) {}
 
-  async generateToken(userId: string): Promise<string> {
-    try {
-      const response = await fetch(`${this.baseUrl}/api/v1/paragon/token`, {
+  async generateToken(
+    userId: string,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<string> {
+    const data = await fetchWithRetry<GenerateTokenResponse>(
+      `${this.baseUrl}/api/v1/paragon/token`,
+      'generateToken',
+      {
+        ...options,
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ userId }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to generate token: ${response.status} ${response.statusText}`);
-      }
-
-      const data: GenerateTokenResponse = await response.json();
-      return data.token;
-    } catch (error) {
-      console.error('Error generating Paragon token:', error);
-      throw error;
-    }
+      },
+    );
+    return data.token;
   }
 
-  async configureSync(request: ConfigureSyncRequest): Promise<ConfigureSyncResponse> {
-    try {
-      console.log('Configuring sync with payload:', JSON.stringify(request, null, 2));
-      
-      const response = await fetch(`${this.baseUrl}/api/v1/webhooks/paragon/sync`, {
+  async configureSync(
+    request: ConfigureSyncRequest,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<ConfigureSyncResponse> {
+    return fetchWithRetry<ConfigureSyncResponse>(
+      `${this.baseUrl}/api/v1/webhooks/paragon/sync`,
+      'configureSync',
+      {
+        ...options,
+        // Not retried, a repeated POST could configure the sync twice
+        retries: 0,
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(request),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Sync configuration failed:', {
-          status: response.status,
-          statusText: response.statusText,
-          body: errorText
-        });
-        throw new Error(`Failed to configure sync: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-
-      const data: ConfigureSyncResponse = await response.json();
-      console.log('Sync configuration successful:', data);
-      return data;
-    } catch (error) {
-      console.error('Error configuring Paragon sync:', error);
-      throw error;
-    }
+      },
+    );
   }
 
-  // Static method for sync status - doesn't need base URL since it uses dedicated sync API
-  static async getSyncStatus(syncId: string, userToken: string): Promise<SyncStatusResponse> {
-    try {
-      console.log('Getting sync status for syncId:', syncId);
-      
-      // Use the dedicated Paragon Sync API endpoint as per documentation
-      // https://docs.useparagon.com/managed-sync/api/get-sync-status
-      const response = await fetch(`https://sync.useparagon.com/api/syncs/${syncId}`, {
-        method: 'GET',
+  // Opens a Google Drive resumable upload session for the user. Drive hands
+  // the session URL back in a response header, which paragon.request doesn't
+  // expose, so the backend opens it through the Paragon proxy instead.
+  async startDriveUpload(
+    request: StartDriveUploadRequest,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<DriveUploadSession> {
+    return fetchWithRetry<DriveUploadSession>(
+      `${this.baseUrl}/api/v1/paragon/drive/uploads`,
+      'startDriveUpload',
+      {
+        ...options,
+        retries: 0,
+        method: 'POST',
         headers: {
-          'Authorization': `Bearer ${userToken}`,
           'Content-Type': 'application/json',
         },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Get sync status failed:', {
-          status: response.status,
-          statusText: response.statusText,
-          body: errorText
-        });
-        throw new Error(`Failed to get sync status: ${response.status} ${response.statusText} - ${errorText}`);
+        body: JSON.stringify(request),
+      },
+    );
+  }
+
+  async getArtifact(
+    artifactId: string,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<Artifact> {
+    return fetchWithRetry<Artifact>(
+      `${this.baseUrl}/api/v1/artifacts/${encodeURIComponent(artifactId)}`,
+      'getArtifact',
+      { ...options, method: 'GET' },
+    );
+  }
+
+  // Opens a Server-Sent Events stream of sync status changes pushed by the
+  // backend as it receives Paragon webhooks. EventSource cannot send
+  // headers, so the user token travels as a query parameter.
+  subscribeToSyncEvents(userToken: string, handlers: SyncEventHandlers): () => void {
+    const url = new URL(`${this.baseUrl}/api/v1/syncs/events`);
+    url.searchParams.set('token', userToken);
+
+    const source = new EventSource(url);
+    source.onopen = () => handlers.onOpen?.();
+    source.addEventListener('sync-status', (message) => {
+      try {
+        handlers.onEvent(JSON.parse((message as MessageEvent<string>).data));
+      } catch (error) {
+        console.error('Ignoring malformed sync event:', error);
       }
+    });
+    source.onerror = (error) => {
+      source.close();
+      handlers.onError?.(error);
+    };
 
-      const data: SyncStatusResponse = await response.json();
-      console.log('Sync status retrieved:', data);
-      return data;
-    } catch (error) {
-      console.error('Error getting Paragon sync status:', error);
-      throw error;
-    }
+    return () => source.close();
+  }
+
+  // Static methods for the sync lifecycle - don't need base URL since they use the dedicated sync API
+  // https://docs.useparagon.com/managed-sync/api
+  private static syncApiUrl(path: string) {
+    const config = getAppConfig();
+    const syncApiBaseUrl = config.success
+      ? config.data.VITE_SYNC_API_BASE_URL
+      : 'https://sync.useparagon.com';
+    return `${syncApiBaseUrl}/api/syncs${path}`;
+  }
+
+  private static syncApiHeaders(userToken: string) {
+    return {
+      'Authorization': `Bearer ${userToken}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  static async listSyncs(
+    userToken: string,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<SyncRecord[]> {
+    const response = await fetchWithRetry<ListSyncsResponse>(
+      ParagonService.syncApiUrl(''),
+      'listSyncs',
+      {
+        ...options,
+        method: 'GET',
+        headers: ParagonService.syncApiHeaders(userToken),
+      },
+    );
+    return response.data;
+  }
+
+  static async getSyncStatus(
+    syncId: string,
+    userToken: string,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<SyncStatusResponse> {
+    // https://docs.useparagon.com/managed-sync/api/get-sync-status
+    return fetchWithRetry<SyncStatusResponse>(
+      ParagonService.syncApiUrl(`/${encodeURIComponent(syncId)}`),
+      'getSyncStatus',
+      {
+        ...options,
+        method: 'GET',
+        headers: ParagonService.syncApiHeaders(userToken),
+      },
+    );
+  }
+
+  // Pausing a sync moves it to DISABLED until it is resumed
+  static async pauseSync(
+    syncId: string,
+    userToken: string,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<SyncActionResponse> {
+    return fetchWithRetry<SyncActionResponse>(
+      ParagonService.syncApiUrl(`/${encodeURIComponent(syncId)}/disable`),
+      'pauseSync',
+      {
+        ...options,
+        // Not retried, the Sync API doesn't document pausing as idempotent
+        retries: 0,
+        method: 'POST',
+        headers: ParagonService.syncApiHeaders(userToken),
+      },
+    );
+  }
+
+  static async resumeSync(
+    syncId: string,
+    userToken: string,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<SyncActionResponse> {
+    return fetchWithRetry<SyncActionResponse>(
+      ParagonService.syncApiUrl(`/${encodeURIComponent(syncId)}/enable`),
+      'resumeSync',
+      {
+        ...options,
+        // Not retried for the same reason as pauseSync
+        retries: 0,
+        method: 'POST',
+        headers: ParagonService.syncApiHeaders(userToken),
+      },
+    );
+  }
+
+  // Discards the sync cursor and pulls every record again
+  static async resync(
+    syncId: string,
+    userToken: string,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<SyncActionResponse> {
+    return fetchWithRetry<SyncActionResponse>(
+      ParagonService.syncApiUrl(`/${encodeURIComponent(syncId)}/resync`),
+      'resync',
+      {
+        ...options,
+        // Not retried, a repeated resync would pull every record again
+        retries: 0,
+        method: 'POST',
+        headers: ParagonService.syncApiHeaders(userToken),
+      },
+    );
   }
 
-  async ingestFile(file: File, request: IngestFileRequest): Promise<IngestFileResponse> {
-    try {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('request', JSON.stringify(request));
+  static async deleteSync(
+    syncId: string,
+    userToken: string,
+    options: ParagonServiceRequestOptions = {},
+  ): Promise<void> {
+    await fetchWithRetry<null>(
+      ParagonService.syncApiUrl(`/${encodeURIComponent(syncId)}`),
+      'deleteSync',
+      {
+        ...options,
+        method: 'DELETE',
+        headers: ParagonService.syncApiHeaders(userToken),
+      },
+    );
+  }
+
+  // Uploads a file for ingestion, reporting progress as bytes are sent.
+  // Large files use the chunked protocol and resume where a cancelled or
+  // failed attempt left off. Only the idempotent chunk uploads are retried
+  // here, whether to send a whole file again is up to the caller.
+  async ingestFile(
+    file: File,
+    request: IngestFileRequest,
+    options: IngestFileOptions = {},
+  ): Promise<IngestFileResponse> {
+    if (file.size > CHUNKED_INGEST_THRESHOLD) {
+      return this.ingestFileInChunks(file, request, options);
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('request', JSON.stringify(request));
 
-      const response = await fetch(`${this.baseUrl}/api/v1/ingest`, {
+    return uploadWithProgress<IngestFileResponse>(
+      `${this.baseUrl}/api/v1/ingest`,
+      'ingestFile',
+      {
         method: 'POST',
         body: formData,
-      });
+        signal: options.signal,
+        timeout: options.timeout,
+        onProgress: (loaded) => options.onProgress?.({ loaded, total: file.size }),
+      },
+    );
+  }
 
-      if (!response.ok) {
-        throw new Error(`Failed to ingest file: ${response.status} ${response.statusText}`);
-      }
+  private async ingestFileInChunks(
+    file: File,
+    request: IngestFileRequest,
+    options: IngestFileOptions,
+  ): Promise<IngestFileResponse> {
+    const key = ingestUploadKey(file, request);
+    const session = await this.resumeOrStartIngestUpload(key, file, request, options);
+    const uploadUrl = `${this.baseUrl}/api/v1/ingest/uploads/${session.uploadId}`;
+    const totalParts = Math.ceil(file.size / session.chunkSize);
+    const uploadedParts = new Set(session.uploadedParts);
+
+    const partSize = (partNumber: number) =>
+      Math.min(session.chunkSize, file.size - (partNumber - 1) * session.chunkSize);
 
-      const data: IngestFileResponse = await response.json();
-      return data;
-    } catch (error) {
-      console.error('Error ingesting file:', error);
-      throw error;
+    let confirmedBytes = 0;
+    uploadedParts.forEach((partNumber) => {
+      confirmedBytes += partSize(partNumber);
+    });
+    options.onProgress?.({ loaded: confirmedBytes, total: file.size });
+
+    for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+      if (uploadedParts.has(partNumber)) continue;
+
+      const start = (partNumber - 1) * session.chunkSize;
+      const chunk = file.slice(start, start + session.chunkSize);
+
+      await withRetry(
+        'uploadIngestPart',
+        () =>
+          uploadWithProgress(`${uploadUrl}/parts/${partNumber}`, 'uploadIngestPart', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: chunk,
+            signal: options.signal,
+            timeout: options.timeout,
+            onProgress: (loaded) =>
+              options.onProgress?.({ loaded: confirmedBytes + loaded, total: file.size }),
+          }),
+        options,
+      );
+      confirmedBytes += chunk.size;
     }
+
+    const response = await fetchWithRetry<IngestFileResponse>(
+      `${uploadUrl}/complete`,
+      'completeIngestUpload',
+      { ...options, retries: 0, method: 'POST' },
+    );
+    rememberIngestUpload(key, null);
+    return response;
+  }
+
+  private async resumeOrStartIngestUpload(
+    key: string,
+    file: File,
+    request: IngestFileRequest,
+    options: ParagonServiceRequestOptions,
+  ): Promise<IngestUploadSession> {
+    const existingUploadId = readIngestUploads()[key];
+    if (existingUploadId) {
+      try {
+        return await fetchWithRetry<IngestUploadSession>(
+          `${this.baseUrl}/api/v1/ingest/uploads/${existingUploadId}`,
+          'getIngestUpload',
+          { ...options, method: 'GET' },
+        );
+      } catch (error) {
+        // The backend expired the upload, start over
+        if (!(error instanceof ParagonServiceError && error.status === 404)) {
+          throw error;
+        }
+      }
+    }
+
+    const session = await fetchWithRetry<IngestUploadSession>(
+      `${this.baseUrl}/api/v1/ingest/uploads`,
+      'startIngestUpload',
+      {
+        ...options,
+        retries: 0,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          filename: file.name,
+          mimeType: file.type,
+          fileSize: file.size,
+          request,
+        }),
+      },
+    );
+    rememberIngestUpload(key, session.uploadId);
+    return { ...session, uploadedParts: session.uploadedParts ?? [] };
   }
 }
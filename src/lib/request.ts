@@ -0,0 +1,290 @@
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  body?: BodyInit;
+  // Abort the request from the outside, e.g. when a component unmounts
+  signal?: AbortSignal;
+  // Per-attempt timeout in milliseconds
+  timeout?: number;
+  // Number of retries after the first attempt for retryable failures
+  retries?: number;
+  // Base delay for exponential backoff in milliseconds
+  retryDelay?: number;
+}
+
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 8_000;
+
+export class ParagonServiceError extends Error {
+  readonly name = 'ParagonServiceError';
+
+  constructor(
+    message: string,
+    readonly endpoint: string,
+    readonly status: number | null,
+    readonly body: unknown,
+    readonly retryable: boolean,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+  }
+
+  get isNetworkError() {
+    return this.status === null;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401;
+  }
+
+  // Prefer the message sent back by the backend over the generic one
+  get detail(): string {
+    if (this.body && typeof this.body === 'object') {
+      const body = this.body as { message?: unknown; error?: unknown };
+      if (typeof body.message === 'string') return body.message;
+      if (typeof body.error === 'string') return body.error;
+    }
+    if (typeof this.body === 'string' && this.body.length > 0) {
+      return this.body;
+    }
+    return this.message;
+  }
+}
+
+export function isRetryableStatus(status: number) {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+function parseText(text: string): unknown {
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  return parseText(await response.text());
+}
+
+function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function attempt<T>(
+  url: string,
+  endpoint: string,
+  options: RequestOptions,
+): Promise<T> {
+  const controller = new AbortController();
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const onAbort = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, {
+      method: options.method ?? 'GET',
+      headers: options.headers,
+      body: options.body,
+      signal: controller.signal,
+    });
+
+    const body = await parseBody(response);
+
+    if (!response.ok) {
+      throw new ParagonServiceError(
+        `${endpoint} failed: ${response.status} ${response.statusText}`,
+        endpoint,
+        response.status,
+        body,
+        isRetryableStatus(response.status),
+      );
+    }
+
+    return body as T;
+  } catch (error) {
+    if (error instanceof ParagonServiceError) {
+      throw error;
+    }
+    if (timedOut) {
+      throw new ParagonServiceError(
+        `${endpoint} timed out after ${timeout}ms`,
+        endpoint,
+        null,
+        null,
+        true,
+        error,
+      );
+    }
+    if (isAbortError(error) && options.signal?.aborted) {
+      throw error;
+    }
+    throw new ParagonServiceError(
+      `${endpoint} failed: network error`,
+      endpoint,
+      null,
+      null,
+      true,
+      error,
+    );
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Runs `operation`, retrying retryable ParagonServiceErrors with exponential
+// backoff. Aborting the signal cancels any pending retry. Only pass operations
+// that are safe to repeat: a POST that timed out may still have gone through.
+export async function withRetry<T>(
+  endpoint: string,
+  operation: () => Promise<T>,
+  options: Pick<RequestOptions, 'signal' | 'retries' | 'retryDelay'> = {},
+): Promise<T> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await operation();
+    } catch (error) {
+      const canRetry =
+        error instanceof ParagonServiceError &&
+        error.retryable &&
+        attemptNumber < retries;
+
+      if (!canRetry) {
+        throw error;
+      }
+
+      const delay = Math.min(retryDelay * 2 ** attemptNumber, MAX_RETRY_DELAY);
+      options.signal?.throwIfAborted();
+      console.warn(
+        `Retrying ${endpoint} in ${delay}ms (attempt ${attemptNumber + 2}/${retries + 1})`,
+      );
+      await wait(delay, options.signal);
+    }
+  }
+}
+
+// Performs a fetch and parses the response body, retrying 5xx and network
+// failures with exponential backoff. Aborting the signal cancels both the
+// in-flight attempt and any pending retry.
+export async function fetchWithRetry<T>(
+  url: string,
+  endpoint: string,
+  options: RequestOptions = {},
+): Promise<T> {
+  return withRetry(endpoint, () => attempt<T>(url, endpoint, options), options);
+}
+
+export interface UploadOptions
+  extends Omit<RequestOptions, 'body' | 'retries' | 'retryDelay'> {
+  body?: XMLHttpRequestBodyInit;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// fetch cannot report upload progress, so uploads go through XMLHttpRequest.
+// Failures are reported with the same ParagonServiceError as fetchWithRetry;
+// retrying is left to the caller since a body stream can only be sent once.
+export function uploadWithProgress<T>(
+  url: string,
+  endpoint: string,
+  options: UploadOptions = {},
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(options.signal.reason);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(options.method ?? 'POST', url);
+    xhr.timeout = options.timeout ?? 0;
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    const onAbort = () => xhr.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => options.signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        options.onProgress?.(event.loaded, event.total);
+      }
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      const body = parseText(xhr.responseText);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(body as T);
+        return;
+      }
+      reject(
+        new ParagonServiceError(
+          `${endpoint} failed: ${xhr.status} ${xhr.statusText}`,
+          endpoint,
+          xhr.status,
+          body,
+          isRetryableStatus(xhr.status),
+        ),
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(
+        new ParagonServiceError(`${endpoint} failed: network error`, endpoint, null, null, true),
+      );
+    };
+    xhr.ontimeout = () => {
+      cleanup();
+      reject(
+        new ParagonServiceError(
+          `${endpoint} timed out after ${xhr.timeout}ms`,
+          endpoint,
+          null,
+          null,
+          true,
+        ),
+      );
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(options.signal?.reason ?? new DOMException('Upload aborted', 'AbortError'));
+    };
+
+    xhr.send(options.body ?? null);
+  });
+}
@@ -0,0 +1,139 @@
+import { paragon } from '@useparagon/connect';
+
+import { getAppConfig } from './config';
+import { ParagonService, ParagonServiceError } from './paragon-service';
+
+// Refresh this long before the token actually expires
+const REFRESH_MARGIN_MS = 60_000;
+// Used when a token has no readable `exp` claim
+const FALLBACK_LIFETIME_MS = 15 * 60_000;
+// Scheduled refreshes never run sooner than this, even for short-lived tokens
+const MIN_REFRESH_DELAY_MS = 5_000;
+// Backoff cap when scheduled refreshes keep failing
+const MAX_REFRESH_RETRY_DELAY_MS = 5 * 60_000;
+
+interface TokenState {
+  token: string;
+  expiresAt: number;
+}
+
+export function decodeTokenExpiry(token: string): number | null {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const claims = JSON.parse(atob(padded)) as { exp?: unknown };
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export class ParagonTokenManager {
+  private state: TokenState | null = null;
+  private pending: Promise<string> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshFailures = 0;
+
+  constructor(
+    private service: ParagonService,
+    private projectId: string,
+    private userId: string,
+  ) {}
+
+  // Returns a token that is valid for at least REFRESH_MARGIN_MS, minting
+  // and re-authenticating the SDK when the current one is about to expire.
+  async getToken(): Promise<string> {
+    if (this.state && this.state.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return this.state.token;
+    }
+    return this.refresh();
+  }
+
+  // Concurrent callers share a single in-flight refresh
+  refresh(): Promise<string> {
+    if (!this.pending) {
+      this.pending = this.mintToken().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  // Runs `fn` with a fresh token. A 401 triggers one refresh and retry.
+  async withToken<T>(fn: (token: string) => Promise<T>): Promise<T> {
+    const token = await this.getToken();
+    try {
+      return await fn(token);
+    } catch (error) {
+      if (error instanceof ParagonServiceError && error.isUnauthorized) {
+        return fn(await this.refresh());
+      }
+      throw error;
+    }
+  }
+
+  stop() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private async mintToken(): Promise<string> {
+    const token = await this.service.generateToken(this.userId);
+    await paragon.authenticate(this.projectId, token);
+
+    const expiresAt = decodeTokenExpiry(token) ?? Date.now() + FALLBACK_LIFETIME_MS;
+    this.state = { token, expiresAt };
+    this.refreshFailures = 0;
+    this.scheduleRefresh(expiresAt);
+
+    return token;
+  }
+
+  // Tokens living shorter than REFRESH_MARGIN_MS are refreshed halfway
+  // through instead, so they don't trigger a refresh loop
+  private scheduleRefresh(expiresAt: number) {
+    const remaining = expiresAt - Date.now();
+    this.startRefreshTimer(
+      Math.max(remaining - REFRESH_MARGIN_MS, remaining / 2, MIN_REFRESH_DELAY_MS),
+    );
+  }
+
+  // A failed refresh is tried again with exponential backoff until one succeeds
+  private startRefreshTimer(delay: number) {
+    this.stop();
+    this.refreshTimer = setTimeout(() => {
+      this.refresh().catch((error) => {
+        this.refreshFailures++;
+        const retryDelay = Math.min(
+          MIN_REFRESH_DELAY_MS * 2 ** this.refreshFailures,
+          MAX_REFRESH_RETRY_DELAY_MS,
+        );
+        console.error(`Failed to refresh Paragon user token, retrying in ${retryDelay}ms:`, error);
+        this.startRefreshTimer(retryDelay);
+      });
+    }, delay);
+  }
+}
+
+let tokenManager: ParagonTokenManager | null = null;
+
+export function getTokenManager(): ParagonTokenManager {
+  if (!tokenManager) {
+    const config = getAppConfig();
+    if (!config.success) {
+      throw config.error;
+    }
+
+    tokenManager = new ParagonTokenManager(
+      new ParagonService(config.data.VITE_API_BASE_URL),
+      config.data.VITE_PARAGON_PROJECT_ID,
+      config.data.VITE_PARAGON_USER_ID,
+    );
+  }
+  return tokenManager;
+}
@@ -0,0 +1,228 @@
+// Minimal ZIP writer. Entries are stored without compression, which keeps
+// the archive cheap to build in the browser; most Drive content (PDFs,
+// Office files, images) is already compressed. Entries are written to a sink
+// as they arrive, so an archive can be streamed while files are still
+// downloading.
+// https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+
+// Without ZIP64 records sizes and offsets must fit in 32 bits
+const ZIP_SIZE_LIMIT = 0xffffffff;
+const ZIP_ENTRY_LIMIT = 0xffff;
+
+// General purpose flag for UTF-8 file names
+const UTF8_FLAG = 0x0800;
+const VERSION = 20;
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+  isDirectory: boolean;
+}
+
+type ZipPart = Blob | ArrayBuffer | Uint8Array;
+
+// Where the archive bytes go, in order
+export interface ZipSink {
+  write(part: ZipPart): Promise<void>;
+  close(): Promise<void>;
+  // Discards what was written so far
+  abort(): Promise<void>;
+}
+
+// Largest archive built in memory, when it can't be streamed to disk
+export const MEMORY_ZIP_SIZE_LIMIT = 500 * 1024 * 1024;
+
+// Keeps the archive in memory, for browsers without the File System Access API
+export class MemoryZipSink implements ZipSink {
+  private parts: ZipPart[] = [];
+  private size = 0;
+
+  constructor(private readonly limit = MEMORY_ZIP_SIZE_LIMIT) {}
+
+  async write(part: ZipPart) {
+    const size = part instanceof Blob ? part.size : part.byteLength;
+    if (this.size + size > this.limit) {
+      throw new Error(
+        `This browser can only build ZIPs up to ${Math.round(this.limit / 1024 / 1024)} MB`,
+      );
+    }
+    this.parts.push(part);
+    this.size += size;
+  }
+
+  async close() {}
+
+  async abort() {
+    this.parts = [];
+    this.size = 0;
+  }
+
+  toBlob() {
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+}
+
+// Streams the archive to a file picked with showSaveFilePicker
+export class FileZipSink implements ZipSink {
+  constructor(private readonly stream: FileSystemWritableFileStream) {}
+
+  write(part: ZipPart) {
+    return this.stream.write(part);
+  }
+
+  close() {
+    return this.stream.close();
+  }
+
+  abort() {
+    return this.stream.abort();
+  }
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable() {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+function updateCrc(crc: number, chunk: Uint8Array) {
+  const table = getCrcTable();
+  let c = crc;
+  for (let i = 0; i < chunk.length; i++) {
+    c = table[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+  }
+  return c;
+}
+
+// CRC-32 of a blob, read a chunk at a time
+async function crc32(blob: Blob) {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    crc = updateCrc(crc, value);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, in local time
+function toDosDateTime(date: Date) {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private encoder = new TextEncoder();
+
+  constructor(private readonly sink: ZipSink) {}
+
+  get entryCount() {
+    return this.entries.length;
+  }
+
+  async addFile(path: string, data: Blob, modified = new Date()) {
+    await this.addEntry(path, data, modified, false);
+  }
+
+  async addDirectory(path: string, modified = new Date()) {
+    await this.addEntry(path.endsWith('/') ? path : `${path}/`, new Blob([]), modified, true);
+  }
+
+  // Appends the central directory and closes the sink
+  async finish() {
+    const start = this.offset;
+    const central = this.entries.map((entry) => this.centralHeader(entry));
+    const centralSize = central.reduce((total, header) => total + header.length, 0);
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, start, true);
+
+    for (const header of central) {
+      await this.sink.write(header);
+    }
+    await this.sink.write(end.buffer);
+    await this.sink.close();
+  }
+
+  private async addEntry(path: string, data: Blob, modified: Date, isDirectory: boolean) {
+    if (this.entries.length >= ZIP_ENTRY_LIMIT) {
+      throw new Error(`ZIP archives are limited to ${ZIP_ENTRY_LIMIT} entries`);
+    }
+    if (this.offset + data.size > ZIP_SIZE_LIMIT) {
+      throw new Error('ZIP archive would exceed 4GB');
+    }
+
+    const entry: ZipEntry = {
+      name: this.encoder.encode(path),
+      crc: data.size > 0 ? await crc32(data) : 0,
+      size: data.size,
+      offset: this.offset,
+      ...toDosDateTime(modified),
+      isDirectory,
+    };
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, VERSION, true);
+    header.setUint16(6, UTF8_FLAG, true);
+    // Compression method 0: stored
+    header.setUint16(8, 0, true);
+    header.setUint16(10, entry.time, true);
+    header.setUint16(12, entry.date, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.size, true);
+    header.setUint32(22, entry.size, true);
+    header.setUint16(26, entry.name.length, true);
+
+    await this.sink.write(header.buffer);
+    await this.sink.write(entry.name);
+    if (data.size > 0) await this.sink.write(data);
+    this.offset += 30 + entry.name.length + data.size;
+    this.entries.push(entry);
+  }
+
+  private centralHeader(entry: ZipEntry) {
+    const header = new Uint8Array(46 + entry.name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint16(4, VERSION, true);
+    view.setUint16(6, VERSION, true);
+    view.setUint16(8, UTF8_FLAG, true);
+    view.setUint16(10, 0, true);
+    view.setUint16(12, entry.time, true);
+    view.setUint16(14, entry.date, true);
+    view.setUint32(16, entry.crc, true);
+    view.setUint32(20, entry.size, true);
+    view.setUint32(24, entry.size, true);
+    view.setUint16(28, entry.name.length, true);
+    // MS-DOS directory attribute
+    view.setUint32(38, entry.isDirectory ? 0x10 : 0, true);
+    view.setUint32(42, entry.offset, true);
+    header.set(entry.name, 46);
+    return header;
+  }
+}
@@ -11,11 +11,16 @@ declare module '@cubone/react-file-manager' {
   export interface FileManagerProps {
     files: FileManagerItem[];
     filePreviewPath?: string;
-    onFileSelect?: (selectedItems: FileManagerItem[]) => void;
-    onFileDownload?: (file: FileManagerItem) => void;
-    onFileDelete?: (file: FileManagerItem) => void;
-    onFileRename?: (file: FileManagerItem, newName: string) => void;
-    onFolderCreate?: (path: string, name: string) => void;
+    enableFilePreview?: boolean;
+    isLoading?: boolean;
+    // Called for folders as well as files
+    onFileOpen?: (file: FileManagerItem) => void;
+    onSelect?: (files: FileManagerItem[]) => void;
+    onDownload?: (files: FileManagerItem[]) => void;
+    onDelete?: (files: FileManagerItem[]) => void;
+    onRename?: (file: FileManagerItem, newName: string) => void;
+    // parentFolder is null at the root of the file tree
+    onCreateFolder?: (name: string, parentFolder: FileManagerItem | null) => void;
   }
 
   export const FileManager: React.FC<FileManagerProps>;
@@ -0,0 +1,10 @@
+// Save dialog of the File System Access API, Chromium only and not in
+// TypeScript's DOM lib
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}
+
+interface Window {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+}
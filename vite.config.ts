@@ -1,18 +1,29 @@
 import path from 'node:path';
 
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
 
+import { mockBackend } from './mock/backend';
+
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react(), tailwindcss()],
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '');
+
+  return {
+    plugins: [
+      react(),
+      tailwindcss(),
+      /^(true|1|yes|on)$/i.test(env.VITE_MOCK_BACKEND?.trim() ?? '') &&
+        mockBackend({ signingKey: env.PARAGON_SIGNING_KEY }),
+    ],
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, './src'),
+      },
+    },
+    optimizeDeps: {
+      include: ['@useparagon/connect'],
     },
-  },
-  optimizeDeps: {
-    include: ['@useparagon/connect'],
-  },
+  };
 });